@@ -0,0 +1,88 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider, type OcrCheque, type OcrProvider } from '../src/lib/ocr';
+import { createApp, type AppOptions } from './app';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const cheque: OcrCheque = { amount: { value: '۱۲,۵۰۰,۰۰۰', confidence: 0.9 }, date: { value: '۱۴۰۳/۵/۱۰', confidence: 0.8 } };
+
+let server: Server | null = null;
+
+afterEach(() => {
+  server?.close();
+  server = null;
+});
+
+// Start the app on a free port and return its /api/ocr URL
+const start = async (options: Partial<AppOptions> = {}) => {
+  const app = createApp({ provider: createMockProvider({}, [cheque]), ...options });
+  server = await new Promise<Server>(resolve => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/ocr`;
+};
+
+const upload = (url: string, body: Buffer, contentType = 'image/jpeg', headers: Record<string, string> = {}) => {
+  return fetch(url, { method: 'POST', headers: { 'Content-Type': contentType, ...headers }, body });
+};
+
+describe('POST /api/ocr', () => {
+  it('returns the normalised cheques', async () => {
+    const url = await start();
+    const response = await upload(url, JPEG, 'image/jpeg', { 'X-File-Name': encodeURIComponent('چک.jpg') });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      cheques: [{ amount: { value: '12500000', confidence: 0.9 }, date: { value: '1403/05/10', confidence: 0.8 } }]
+    });
+  });
+
+  it('passes the decoded file name to the provider', async () => {
+    const recognize = vi.fn<OcrProvider['recognize']>(async () => []);
+    const url = await start({ provider: { name: 'spy', recognize } });
+    await upload(url, JPEG, 'image/jpeg', { 'X-File-Name': encodeURIComponent('چک ۱.jpg') });
+    expect(recognize).toHaveBeenCalledWith(expect.objectContaining({ fileName: 'چک ۱.jpg', mimeType: 'image/jpeg', data: JPEG.toString('base64') }));
+  });
+
+  it('rejects an unsupported content type with 415', async () => {
+    const url = await start();
+    const response = await upload(url, Buffer.from('hello'), 'text/plain');
+    expect(response.status).toBe(415);
+  });
+
+  it('rejects a file whose bytes do not match its type with 415', async () => {
+    const url = await start();
+    const response = await upload(url, Buffer.from('%PDF-1.7'), 'image/png');
+    expect(response.status).toBe(415);
+  });
+
+  it('rejects an upload over the size limit with 413', async () => {
+    const url = await start({ maxUploadBytes: 16 });
+    const response = await upload(url, Buffer.concat([JPEG, Buffer.alloc(32)]));
+    expect(response.status).toBe(413);
+  });
+
+  it('limits the request rate with 429', async () => {
+    const url = await start({ rateLimit: { windowMs: 60_000, max: 2 } });
+    expect((await upload(url, JPEG)).status).toBe(200);
+    expect((await upload(url, JPEG)).status).toBe(200);
+    const limited = await upload(url, JPEG);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBeTruthy();
+  });
+
+  it('answers a malformed file name with 400 without calling the model', async () => {
+    const recognize = vi.fn<OcrProvider['recognize']>(async () => []);
+    const url = await start({ provider: { name: 'spy', recognize } });
+    const response = await upload(url, JPEG, 'image/jpeg', { 'X-File-Name': '%E0%A4%A' });
+    expect(response.status).toBe(400);
+    expect(recognize).not.toHaveBeenCalled();
+  });
+
+  it('reports a provider failure as 502', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const url = await start({ provider: { name: 'down', recognize: async () => { throw new Error('model down'); } } });
+    expect((await upload(url, JPEG)).status).toBe(502);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,101 @@
+import express, { type ErrorRequestHandler } from 'express';
+import path from 'path';
+import { normalizeOcrCheque, type OcrProvider } from '../src/lib/ocr';
+import { createRateLimiter, type RateLimitOptions } from './rateLimit';
+
+export const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'];
+
+export type AppOptions = {
+  provider: OcrProvider;
+  maxUploadBytes?: number;
+  rateLimit?: RateLimitOptions;
+  // Built client to serve alongside the API (omit in development, where Vite serves it)
+  staticDir?: string;
+};
+
+// Check the file's leading bytes so a mislabelled upload is not forwarded to the model
+const matchesSignature = (body: Buffer, mimeType: string) => {
+  const ascii = (start: number, end: number) => body.subarray(start, end).toString('latin1');
+  switch (mimeType) {
+    case 'image/jpeg': return body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff;
+    case 'image/png': return body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/webp': return ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP';
+    case 'image/heic':
+    case 'image/heif': return ascii(4, 8) === 'ftyp';
+    case 'application/pdf': return ascii(0, 5) === '%PDF-';
+    default: return false;
+  }
+};
+
+export const createApp = ({
+  provider,
+  maxUploadBytes = 10 * 1024 * 1024,
+  rateLimit = { windowMs: 60 * 1000, max: 20 },
+  staticDir
+}: AppOptions) => {
+  const app = express();
+
+  app.post(
+    '/api/ocr',
+    createRateLimiter(rateLimit),
+    (req, res, next) => {
+      if (!req.is(ALLOWED_TYPES)) {
+        res.status(415).json({ error: 'نوع فایل پشتیبانی نمی‌شود؛ فقط تصویر یا PDF مجاز است' });
+        return;
+      }
+      next();
+    },
+    express.raw({ type: ALLOWED_TYPES, limit: maxUploadBytes }),
+    async (req, res) => {
+      const body = req.body as Buffer;
+      const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      if (!Buffer.isBuffer(body) || body.length === 0) {
+        res.status(400).json({ error: 'فایلی ارسال نشده است' });
+        return;
+      }
+      if (!matchesSignature(body, mimeType)) {
+        res.status(415).json({ error: 'محتوای فایل با نوع اعلام‌شده مطابقت ندارد' });
+        return;
+      }
+
+      // A malformed name is the client's mistake, not a model failure
+      let fileName: string;
+      try {
+        fileName = decodeURIComponent(String(req.headers['x-file-name'] || 'upload'));
+      } catch {
+        res.status(400).json({ error: 'نام فایل نامعتبر است' });
+        return;
+      }
+
+      try {
+        const cheques = await provider.recognize({
+          fileName,
+          mimeType,
+          data: body.toString('base64')
+        });
+        res.json({ cheques: cheques.map(normalizeOcrCheque) });
+      } catch (err) {
+        console.error(err);
+        res.status(502).json({ error: 'خطا در پردازش تصویر' });
+      }
+    }
+  );
+
+  if (staticDir) {
+    app.use(express.static(staticDir));
+    app.get('*', (_req, res) => res.sendFile(path.join(staticDir, 'index.html')));
+  }
+
+  const handleErrors: ErrorRequestHandler = (err, _req, res, next) => {
+    if (res.headersSent) return next(err);
+    if (err?.type === 'entity.too.large') {
+      res.status(413).json({ error: `حجم فایل بیش از ${Math.round(maxUploadBytes / 1024 / 1024)} مگابایت است` });
+      return;
+    }
+    console.error(err);
+    res.status(err?.status || 500).json({ error: 'خطای سرور' });
+  };
+  app.use(handleErrors);
+
+  return app;
+};
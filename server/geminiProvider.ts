@@ -0,0 +1,27 @@
+import { GoogleGenAI } from '@google/genai';
+import { parseOcrResponse, type OcrProvider } from '../src/lib/ocr';
+
+const OCR_PROMPT = `Find every bank cheque in this file (a photo may contain several cheques, a PDF may have one per page).
+For each cheque extract the amount in rials and the due date as a Jalali date in YYYY/MM/DD format.
+Return ONLY a JSON object of the form {"cheques": [{"amount": {"value": number|null, "confidence": number}, "date": {"value": string|null, "confidence": number}}]}.
+confidence is your certainty for that field between 0 and 1. Use null when a field cannot be read. Do not include markdown formatting.`;
+
+export const createGeminiProvider = (apiKey: string | undefined, model = 'gemini-2.5-flash'): OcrProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    recognize: async ({ data, mimeType }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          { inlineData: { data, mimeType } },
+          { text: OCR_PROMPT }
+        ],
+        config: {
+          responseMimeType: 'application/json',
+        }
+      });
+      return parseOcrResponse(response.text || '{}');
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { createApp } from './app';
+import { createGeminiProvider } from './geminiProvider';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.warn('GEMINI_API_KEY is not set; /api/ocr requests will fail');
+}
+
+const port = Number(process.env.PORT) || 3001;
+const app = createApp({
+  provider: createGeminiProvider(apiKey),
+  staticDir: process.env.NODE_ENV === 'production' ? path.resolve('dist') : undefined
+});
+
+// Behind a reverse proxy, rate limiting must key on the forwarded client address
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', process.env.TRUST_PROXY);
+}
+
+app.listen(port, () => {
+  console.log(`Server listening on http://localhost:${port}`);
+});
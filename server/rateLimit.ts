@@ -0,0 +1,36 @@
+import type { RequestHandler } from 'express';
+
+export type RateLimitOptions = {
+  windowMs: number;
+  max: number;
+};
+
+// In-memory sliding-window limiter keyed by client IP. Good enough for a single
+// process; put a shared store in front if the server is ever scaled out.
+export const createRateLimiter = ({ windowMs, max }: RateLimitOptions): RequestHandler => {
+  const hits = new Map<string, number[]>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+    const recent = (hits.get(key) || []).filter(t => now - t < windowMs);
+
+    if (recent.length >= max) {
+      hits.set(key, recent);
+      res.set('Retry-After', Math.ceil((recent[0] + windowMs - now) / 1000).toString());
+      res.status(429).json({ error: 'تعداد درخواست‌ها بیش از حد مجاز است؛ کمی بعد دوباره تلاش کنید' });
+      return;
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+
+    // Drop idle clients so the map does not grow without bound
+    if (hits.size > 1000) {
+      for (const [k, times] of hits) {
+        if (times.every(t => now - t >= windowMs)) hits.delete(k);
+      }
+    }
+    next();
+  };
+};
@@ -1,281 +1,545 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { Plus, Trash2, Calendar, DollarSign, Calculator, Info, Printer, FileSpreadsheet, Trash, Camera, Loader2 } from 'lucide-react';
-import jalaali from 'jalaali-js';
-import * as XLSX from 'xlsx';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Plus, Calendar, Calculator, Info, Printer, FileSpreadsheet, Trash, Camera, Loader2, Scale, FolderOpen, Download, Undo2, Redo2, ListOrdered, Eye, Save, X, WifiOff, ShieldCheck } from 'lucide-react';
+import type * as XLSX from 'xlsx';
 import { motion, AnimatePresence } from 'motion/react';
-import { jsPDF } from 'jspdf';
-import domtoimage from 'dom-to-image-more';
-import { GoogleGenAI } from '@google/genai';
-
-type Cheque = {
-  id: string;
-  amount: string;
-  date: string;
+import CaseSidebar from './components/CaseSidebar';
+import RasSolver from './components/RasSolver';
+import DiscountPanel from './components/DiscountPanel';
+import ImportDialog from './components/ImportDialog';
+import OcrReviewDialog from './components/OcrReviewDialog';
+import ChequeTable from './components/ChequeTable';
+import CashflowDashboard from './components/CashflowDashboard';
+import LedgerPanel from './components/LedgerPanel';
+import BusinessDayPanel from './components/BusinessDayPanel';
+import SeriesDialog from './components/SeriesDialog';
+import VerifyDialog from './components/VerifyDialog';
+import DisplayControls from './components/DisplayControls';
+import { formatJalaliInput, getTodayJalali } from './lib/jalali';
+import { calculateRas } from './lib/ras';
+import { amountInWords, amountUnitLabels, formatAmount, loadDisplaySettings, localizeDigits, saveDisplaySettings, unitToRial } from './lib/money';
+import { calculateDiscount, parseRate } from './lib/discount';
+import { readWorkbook } from './lib/importer';
+import { downloadLedgerWorkbook, downloadWorkbook } from './lib/exporter';
+import { buildLedger } from './lib/ledger';
+import { downloadReport } from './lib/pdfReport';
+import { loadHolidayCalendar, saveHolidayCalendar, type BusinessDayRule } from './lib/holidays';
+import { createServerProvider, recognizeFiles, type OcrFileError, type ReviewRow } from './lib/ocr';
+import { enqueueImages, isNetworkError, loadQueue, removeFromQueue } from './lib/ocrQueue';
+import { chequeTypeLabels, createCase, createEmptyCheque, duplicateCase, loadActiveCaseId, loadCases, saveActiveCaseId, saveCases } from './lib/cases';
+import { caseFromFile, createShareUrl, downloadCaseFile, parseCaseFile, readShareHash, type CaseFile, type CaseFileFailure } from './lib/caseFile';
+import { createAuditRecord, createVerifyUrl, readVerifyHash } from './lib/audit';
+import { createHistory, recordHistory, redoHistory, undoHistory } from './lib/history';
+import type { PasteResult } from './lib/paste';
+import { duplicateCheques, removeCheques, shiftChequeDates, sortCheques } from './lib/bulk';
+import type { Case, CaseSettings, Cheque, ChequeType } from './types';
+
+type CaseSnapshot = Pick<Case, 'baseDate' | 'cheques'>;
+
+const caseFileMessages: Record<CaseFileFailure, string> = {
+  'invalid-json': 'فایل JSON معتبر نیست',
+  'not-case-file': 'این فایل، پرونده راس‌گیری نیست',
+  'newer-version': 'این پرونده با نسخه جدیدتری از برنامه ساخته شده است',
+  'invalid-field': 'مقدار نامعتبر در فیلد',
+  'invalid-link': 'لینک ناقص یا خراب است',
 };
 
-// Helper to format numbers with commas
-const formatNumber = (num: string | number) => {
-  if (!num) return '';
-  return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+const describeCaseFileError = ({ reason, field }: { reason: CaseFileFailure; field?: string }) => {
+  return field ? `${caseFileMessages[reason]}: ${field}` : caseFileMessages[reason];
 };
 
-// Helper to parse comma-separated numbers
-const parseNumber = (str: string) => {
-  return parseInt(str.replace(/,/g, ''), 10) || 0;
+const clearShareHash = () => {
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
 };
 
-// Helper to validate Jalali date string (YYYY/MM/DD)
-const isValidJalali = (dateStr: string) => {
-  const parts = dateStr.split('/');
-  if (parts.length !== 3) return false;
-  const y = parseInt(parts[0], 10);
-  const m = parseInt(parts[1], 10);
-  const d = parseInt(parts[2], 10);
-  return jalaali.isValidJalaaliDate(y, m, d);
-};
+export default function App() {
+  const [cases, setCases] = useState<Case[]>(() => {
+    const stored = loadCases();
+    return stored.length > 0 ? stored : [createCase('پرونده ۱', getTodayJalali())];
+  });
+  const [activeCaseId, setActiveCaseId] = useState(() => loadActiveCaseId() || '');
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [holidayCalendar, setHolidayCalendar] = useState(loadHolidayCalendar);
+  const [display, setDisplay] = useState(loadDisplaySettings);
+  // A case opened from a share link; shown read-only and never saved unless copied
+  const [sharedCase, setSharedCase] = useState<Case | null>(null);
+  // Text for the verify screen; null while it is closed
+  const [verifyInput, setVerifyInput] = useState<string | null>(null);
+
+  const storedCase = cases.find(c => c.id === activeCaseId) || cases[0];
+  const activeCase = sharedCase ?? storedCase;
+  const isReadOnly = sharedCase !== null;
+  const { baseDate, cheques, settings } = activeCase;
+
+  const [history, setHistory] = useState(() => createHistory<CaseSnapshot>());
+
+  const updateActiveCase = (patch: Partial<Pick<Case, 'baseDate' | 'cheques' | 'settings'>>) => {
+    if (isReadOnly) return;
+    setCases(prev => prev.map(c => c.id === activeCase.id ? { ...c, ...patch, updatedAt: Date.now() } : c));
+  };
+  // Changes to the cheques and base date go through here so they can be undone
+  const updateSnapshot = (patch: Partial<CaseSnapshot>, historyKey: string | null = null) => {
+    if (isReadOnly) return;
+    setHistory(h => recordHistory(h, { baseDate, cheques }, historyKey));
+    updateActiveCase(patch);
+  };
+  const setBaseDate = (value: string) => updateSnapshot({ baseDate: value }, 'baseDate');
+  const setCheques = (value: Cheque[], historyKey: string | null = null) => updateSnapshot({ cheques: value }, historyKey);
+  const updateSettings = (patch: Partial<CaseSettings>) => updateActiveCase({ settings: { ...settings, ...patch } });
+
+  const undo = () => {
+    const step = undoHistory(history, { baseDate, cheques });
+    if (!step) return;
+    setHistory(step.history);
+    updateActiveCase(step.state);
+  };
 
-// Helper to convert Jalali string to JS Date
-const jalaliToDate = (dateStr: string) => {
-  const [y, m, d] = dateStr.split('/').map(Number);
-  const { gy, gm, gd } = jalaali.toGregorian(y, m, d);
-  return new Date(gy, gm - 1, gd);
-};
+  const redo = () => {
+    const step = redoHistory(history, { baseDate, cheques });
+    if (!step) return;
+    setHistory(step.history);
+    updateActiveCase(step.state);
+  };
 
-// Helper to convert JS Date to Jalali string
-const dateToJalali = (date: Date) => {
-  const { jy, jm, jd } = jalaali.toJalaali(date.getFullYear(), date.getMonth() + 1, date.getDate());
-  return `${jy}/${jm.toString().padStart(2, '0')}/${jd.toString().padStart(2, '0')}`;
-};
+  // History belongs to the case it was recorded in
+  useEffect(() => {
+    setHistory(createHistory());
+  }, [activeCase.id]);
+
+  // Match on the physical key so the shortcuts also work with a Persian keyboard layout.
+  // Fields outside the cheque table and open dialogs keep the browser's own text undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (pendingImport || isSeriesOpen || ocrReview || verifyInput !== null || isSidebarOpen) return;
+      const target = e.target as HTMLElement;
+      const isEditable = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (isEditable && !target.closest('[data-cheque-table]')) return;
+      if (e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (e.code === 'KeyY' || (e.code === 'KeyZ' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Autosave every change to browser storage
+  useEffect(() => {
+    saveCases(cases);
+  }, [cases]);
+
+  useEffect(() => {
+    saveActiveCaseId(storedCase.id);
+  }, [storedCase.id]);
+
+  useEffect(() => {
+    saveHolidayCalendar(holidayCalendar);
+  }, [holidayCalendar]);
+
+  useEffect(() => {
+    saveDisplaySettings(display);
+  }, [display]);
+
+  useEffect(() => {
+    const openShareLink = async () => {
+      // A report's QR code links here with the record to verify
+      const verifyPayload = readVerifyHash(window.location.hash);
+      if (verifyPayload !== null) {
+        clearShareHash();
+        setVerifyInput(verifyPayload);
+        return;
+      }
+      const result = await readShareHash(window.location.hash);
+      if (!result) return;
+      if (result.ok === false) {
+        clearShareHash();
+        alert(describeCaseFileError(result));
+      } else {
+        setSharedCase(caseFromFile(result.file));
+      }
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
+  const closeSharedCase = () => {
+    setSharedCase(null);
+    clearShareHash();
+  };
 
-// Get today's Jalali date
-const getTodayJalali = () => {
-  return dateToJalali(new Date());
-};
+  // The shared case already has fresh ids, so it can be stored as-is
+  const saveSharedCase = () => {
+    if (!sharedCase) return;
+    setCases([...cases, sharedCase]);
+    setActiveCaseId(sharedCase.id);
+    closeSharedCase();
+  };
 
-// Auto-format date input (YYYY/MM/DD)
-const formatJalaliInput = (value: string) => {
-  let val = value.replace(/\D/g, '');
-  if (val.length > 4) {
-    val = val.slice(0, 4) + '/' + val.slice(4);
-  }
-  if (val.length > 7) {
-    val = val.slice(0, 7) + '/' + val.slice(7, 9);
-  }
-  return val;
-};
+  const openVerifiedCase = (file: CaseFile) => {
+    setSharedCase(caseFromFile(file));
+    setVerifyInput(null);
+  };
 
-export default function App() {
-  const [baseDate, setBaseDate] = useState(getTodayJalali());
-  const [cheques, setCheques] = useState<Cheque[]>([
-    { id: '1', amount: '', date: '' }
-  ]);
+  const exportCase = (id: string) => {
+    const source = cases.find(c => c.id === id);
+    if (source) downloadCaseFile(source);
+  };
+
+  const shareCase = async (id: string) => {
+    const source = cases.find(c => c.id === id);
+    if (!source) return;
+
+    const url = await createShareUrl(source, window.location.origin + window.location.pathname);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert('لینک اشتراک کپی شد؛ گیرنده پرونده را فقط خواندنی می‌بیند و می‌تواند از آن نسخه قابل ویرایش بسازد');
+    } catch {
+      window.prompt('لینک اشتراک را کپی کنید', url);
+    }
+  };
+
+  const importCaseFile = async (file: File) => {
+    try {
+      const result = parseCaseFile(await file.text());
+      if (result.ok === false) {
+        alert(describeCaseFileError(result));
+        return;
+      }
+      const imported = caseFromFile(result.file);
+      setCases([...cases, imported]);
+      setActiveCaseId(imported.id);
+      closeSharedCase();
+      setIsSidebarOpen(false);
+    } catch (err) {
+      console.error(err);
+      alert('خطا در خواندن فایل');
+    }
+  };
+
+  const createNewCase = () => {
+    const newCase = createCase(`پرونده ${(cases.length + 1).toLocaleString('fa-IR')}`, getTodayJalali());
+    setCases([...cases, newCase]);
+    setActiveCaseId(newCase.id);
+    closeSharedCase();
+  };
+
+  const renameCase = (id: string, name: string) => {
+    setCases(cases.map(c => c.id === id ? { ...c, name, updatedAt: Date.now() } : c));
+  };
+
+  const copyCase = (id: string) => {
+    const source = cases.find(c => c.id === id);
+    if (!source) return;
+    const copy = duplicateCase(source);
+    setCases([...cases, copy]);
+    setActiveCaseId(copy.id);
+    closeSharedCase();
+  };
+
+  const deleteCase = (id: string) => {
+    const remaining = cases.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      remaining.push(createCase('پرونده ۱', getTodayJalali()));
+    }
+    setCases(remaining);
+    if (id === activeCase.id) {
+      setActiveCaseId(remaining[0].id);
+    }
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const [isLoadingOCR, setIsLoadingOCR] = useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ workbook: XLSX.WorkBook; fileName: string } | null>(null);
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false);
+  const [ocrReview, setOcrReview] = useState<{ rows: ReviewRow[]; errors: OcrFileError[] } | null>(null);
+  const ocrProvider = useMemo(() => createServerProvider(), []);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedImages, setQueuedImages] = useState(0);
+  const isProcessingQueue = useRef(false);
 
   const downloadPDF = async () => {
-    const element = document.getElementById('pdf-content');
-    if (!element) return;
-    
+    if (!results) return;
+
     setIsGeneratingPDF(true);
-    
-    setTimeout(async () => {
-      try {
-        const dataUrl = await domtoimage.toPng(element, { bgcolor: '#ffffff' });
-        const img = new Image();
-        img.src = dataUrl;
-        img.onload = () => {
-          const pdf = new jsPDF('p', 'mm', 'a4');
-          const pdfWidth = pdf.internal.pageSize.getWidth();
-          const pdfHeight = (img.height * pdfWidth) / img.width;
-          
-          pdf.addImage(dataUrl, 'PNG', 0, 0, pdfWidth, pdfHeight);
-          pdf.save('ras-giri.pdf');
-          setIsGeneratingPDF(false);
-        };
-      } catch (err) {
-        console.error(err);
-        alert('خطا در تولید فایل PDF');
-        setIsGeneratingPDF(false);
-      }
-    }, 100);
+    try {
+      const audit = await createAuditRecord(activeCase, holidayCalendar);
+      if (!audit) return;
+      await downloadReport({
+        caseName: activeCase.name,
+        baseDate,
+        processedCheques,
+        results,
+        settlement,
+        discount,
+        businessDayMode: settings.businessDayMode,
+        display,
+        audit,
+        verifyUrl: await createVerifyUrl(audit, window.location.origin + window.location.pathname)
+      });
+    } catch (err) {
+      console.error(err);
+      alert('خطا در تولید فایل PDF');
+    } finally {
+      setIsGeneratingPDF(false);
+    }
+  };
+
+  const downloadExcel = async () => {
+    if (!results) return;
+    try {
+      const audit = await createAuditRecord(activeCase, holidayCalendar);
+      if (audit) downloadWorkbook({ caseName: activeCase.name, baseDate, processedCheques, results, audit });
+    } catch (err) {
+      console.error(err);
+      alert('خطا در تولید فایل اکسل');
+    }
   };
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length === 0) return;
+
+    if (imageInputRef.current) imageInputRef.current.value = '';
+    if (!navigator.onLine) {
+      await queueImages(files);
+      alert(`اتصال اینترنت برقرار نیست؛ ${files.length} تصویر در صف ماند و پس از اتصال خوانده می‌شود`);
+      return;
+    }
 
     setIsLoadingOCR(true);
-    const reader = new FileReader();
-    reader.onload = async (ev) => {
-      try {
-        const base64Data = (ev.target?.result as string).split(',')[1];
-        
-        const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: [
-            {
-              inlineData: {
-                data: base64Data,
-                mimeType: file.type,
-              }
-            },
-            {
-              text: 'Extract the date and amount from this cheque image. Return ONLY a JSON object with `date` (format: YYYY/MM/DD in Jalali) and `amount` (number). If you cannot find them, return null for those fields. Do not include markdown formatting.'
-            }
-          ],
-          config: {
-            responseMimeType: 'application/json',
-          }
-        });
-
-        const text = response.text || '{}';
-        const data = JSON.parse(text);
-        
-        if (data.amount || data.date) {
-          const newCheque = {
-            id: Date.now().toString(),
-            amount: data.amount ? data.amount.toString() : '',
-            date: data.date || ''
-          };
-          
-          if (cheques.length === 1 && !cheques[0].amount && !cheques[0].date) {
-            setCheques([newCheque]);
-          } else {
-            setCheques([...cheques, newCheque]);
-          }
-          alert('اطلاعات چک با موفقیت استخراج شد');
-        } else {
-          alert('اطلاعاتی در تصویر یافت نشد');
-        }
-      } catch (err) {
-        console.error(err);
-        alert('خطا در پردازش تصویر');
-      } finally {
-        setIsLoadingOCR(false);
-        if (imageInputRef.current) imageInputRef.current.value = '';
+    try {
+      const { rows, errors, unreachable } = await recognizeOnline(files);
+      if (unreachable.length > 0) {
+        await queueImages(unreachable);
+        alert(`${unreachable.length} تصویر به سرور نرسید و در صف ماند تا پس از اتصال خوانده شود`);
       }
+      showOcrReview(rows, errors);
+    } catch (err) {
+      console.error(err);
+      alert('خطا در پردازش تصویر');
+    } finally {
+      setIsLoadingOCR(false);
+    }
+  };
+
+  // Split failures into files that never reached the server, which are worth retrying, and real errors
+  const recognizeOnline = async (files: File[]) => {
+    const { rows, errors } = await recognizeFiles(ocrProvider, files);
+    return {
+      rows,
+      errors: errors.filter(e => !isNetworkError(e.error)),
+      unreachable: errors.filter(e => isNetworkError(e.error)).map(e => e.file)
     };
-    reader.readAsDataURL(file);
+  };
+
+  const showOcrReview = (rows: ReviewRow[], errors: OcrFileError[]) => {
+    if (rows.length > 0 || errors.length > 0) setOcrReview({ rows, errors });
+  };
+
+  const queueImages = async (files: File[]) => {
+    try {
+      await enqueueImages(files);
+      setQueuedImages((await loadQueue()).length);
+    } catch (err) {
+      console.error(err);
+      alert('ذخیره تصویر در صف ممکن نشد');
+    }
+  };
+
+  // Queued images are removed only once the server has answered for them, so closing the
+  // tab mid-way loses nothing. Results land in the case that is open at the time.
+  const processQueue = async () => {
+    if (isProcessingQueue.current) return;
+    isProcessingQueue.current = true;
+    try {
+      const queue = await loadQueue();
+      setQueuedImages(queue.length);
+      if (queue.length === 0) return;
+
+      setIsLoadingOCR(true);
+      const { rows, errors, unreachable } = await recognizeOnline(queue.map(q => q.file));
+      await removeFromQueue(queue.filter(q => !unreachable.includes(q.file)).map(q => q.id));
+      setQueuedImages(unreachable.length);
+      showOcrReview(rows, errors);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      isProcessingQueue.current = false;
+      setIsLoadingOCR(false);
+    }
+  };
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Work through the queue on load and whenever the connection returns, but never while a
+  // review is open (it would replace the rows being checked) or a shared case is on screen
+  useEffect(() => {
+    if (isOnline && !ocrReview && !isReadOnly) processQueue();
+  }, [isOnline, ocrReview === null, isReadOnly]);
+
+  const confirmOcr = (newCheques: Cheque[]) => {
+    appendCheques(newCheques);
+    setOcrReview(null);
+  };
+
+  // Append cheques, replacing the placeholder row when the table is still empty
+  const appendCheques = (newCheques: Cheque[]) => {
+    if (cheques.length === 1 && !cheques[0].amount && !cheques[0].date) {
+      setCheques(newCheques);
+    } else {
+      setCheques([...cheques, ...newCheques]);
+    }
   };
 
   const addCheque = () => {
-    setCheques([...cheques, { id: Date.now().toString(), amount: '', date: '' }]);
+    setCheques([...cheques, createEmptyCheque()]);
+  };
+
+  // Pasted figures are read in the display unit, like typed ones
+  const pasteRows = ({ cheques: pasted, skipped }: PasteResult) => {
+    if (pasted.length > 0) appendCheques(pasted.map(c => ({ ...c, amount: unitToRial(c.amount, display.unit) })));
+    if (skipped > 0) alert(`${pasted.length} چک اضافه شد؛ ${skipped} سطر بدون مبلغ یا تاریخ قابل تشخیص نادیده گرفته شد`);
   };
 
   const removeCheque = (id: string) => {
     setCheques(cheques.filter(c => c.id !== id));
   };
 
-  const updateCheque = (id: string, field: keyof Cheque, value: string) => {
-    setCheques(cheques.map(c => c.id === id ? { ...c, [field]: value } : c));
+  const updateCheque = (id: string, patch: Partial<Cheque>) => {
+    setCheques(cheques.map(c => c.id === id ? { ...c, ...patch } : c), `${id}:${Object.keys(patch).join()}`);
   };
 
   const clearAll = () => {
     if (window.confirm('آیا از پاک کردن همه چک‌ها اطمینان دارید؟')) {
-      setCheques([{ id: Date.now().toString(), amount: '', date: '' }]);
+      setCheques([createEmptyCheque()]);
     }
   };
 
-  const handleExcelUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (ev) => {
-      try {
-        const data = new Uint8Array(ev.target?.result as ArrayBuffer);
-        const wb = XLSX.read(data, { type: 'array' });
-        const json = XLSX.utils.sheet_to_json<any>(wb.Sheets[wb.SheetNames[0]] || {});
-
-        const newCheques: Cheque[] = [];
-        json.forEach((r) => {
-          const amount = r.amount || r['مبلغ'] || r.mablagh || '';
-          const date = r.date || r['تاریخ'] || r.tarikh || '';
-          if (amount || date) {
-            newCheques.push({
-              id: Date.now().toString() + Math.random().toString(36).substring(7),
-              amount: amount.toString(),
-              date: date.toString()
-            });
-          }
-        });
-
-        if (newCheques.length > 0) {
-          if (cheques.length === 1 && !cheques[0].amount && !cheques[0].date) {
-            setCheques(newCheques);
-          } else {
-            setCheques([...cheques, ...newCheques]);
-          }
-          alert(`بارگذاری موفق: ${newCheques.length} چک اضافه شد`);
-        } else {
-          alert('هیچ چک معتبری در فایل پیدا نشد');
-        }
-      } catch (err) {
-        console.error(err);
-        alert('خطا در خواندن فایل');
-      }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsArrayBuffer(file);
+    try {
+      setPendingImport({ workbook: await readWorkbook(file), fileName: file.name });
+    } catch (err) {
+      console.error(err);
+      alert('خطا در خواندن فایل');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  // Optimized Calculation Logic: Compute everything in one pass
-  const { processedCheques, results, isBaseValid } = useMemo(() => {
-    const baseValid = isValidJalali(baseDate);
-    const baseD = baseValid ? jalaliToDate(baseDate) : null;
-
-    let totalAmount = 0;
-    let totalValueDays = 0;
-    let validChequesCount = 0;
-
-    const processed = cheques.map(cheque => {
-      const amt = parseNumber(cheque.amount);
-      const isDateValid = isValidJalali(cheque.date);
-      let days = '-';
-
-      if (baseD && isDateValid) {
-        const chqD = jalaliToDate(cheque.date);
-        const diffTime = chqD.getTime() - baseD.getTime();
-        const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-        days = diffDays.toString();
-
-        if (amt > 0) {
-          totalAmount += amt;
-          totalValueDays += (amt * diffDays);
-          validChequesCount++;
-        }
-      }
+  const confirmImport = (newCheques: Cheque[]) => {
+    appendCheques(newCheques);
+    setPendingImport(null);
+    alert(`بارگذاری موفق: ${newCheques.length} چک اضافه شد`);
+  };
 
-      return {
-        ...cheque,
-        parsedAmount: amt,
-        isDateValid,
-        isInvalid: cheque.date.length >= 8 && !isDateValid,
-        days
-      };
-    });
-
-    let res = null;
-    if (totalAmount > 0 && validChequesCount > 0 && baseD) {
-      const averageDays = Math.round(totalValueDays / totalAmount);
-      const rasDateObj = new Date(baseD.getTime() + averageDays * 24 * 60 * 60 * 1000);
-      res = {
-        totalAmount,
-        averageDays,
-        rasDate: dateToJalali(rasDateObj),
-        validChequesCount
-      };
-    }
+  const businessDays = useMemo<BusinessDayRule | null>(
+    () => settings.businessDayMode ? { calendar: holidayCalendar, roll: settings.rollDirection } : null,
+    [settings.businessDayMode, settings.rollDirection, holidayCalendar]
+  );
 
-    return { processedCheques: processed, results: res, isBaseValid: baseValid };
-  }, [baseDate, cheques]);
+  const { processedCheques, results, settlement, isBaseValid } = useMemo(
+    () => calculateRas({ baseDate, cheques, excludedStatuses: settings.excludedStatuses, businessDays }),
+    [baseDate, cheques, settings.excludedStatuses, businessDays]
+  );
+
+  const ledger = useMemo(
+    () => isBaseValid ? buildLedger(processedCheques, baseDate, settings.excludedStatuses, businessDays) : null,
+    [processedCheques, baseDate, isBaseValid, settings.excludedStatuses, businessDays]
+  );
+
+  const discount = useMemo(() => {
+    const annualRate = parseRate(settings.annualRate);
+    if (!settings.discountEnabled || annualRate === null || !isBaseValid) return null;
+    return calculateDiscount({ baseDate, processedCheques, annualRate, method: settings.interestMethod });
+  }, [baseDate, processedCheques, isBaseValid, settings]);
 
   return (
     <div className="min-h-screen bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-50 via-slate-100 to-slate-200 py-8 px-4 sm:px-6 lg:px-8 print:bg-white print:py-4">
-      <div id="pdf-content" className="max-w-4xl mx-auto space-y-8 p-4 bg-transparent">
+      <CaseSidebar
+        isOpen={isSidebarOpen}
+        cases={cases}
+        activeCaseId={activeCase.id}
+        onClose={() => setIsSidebarOpen(false)}
+        onSelect={(id) => {
+          setActiveCaseId(id);
+          closeSharedCase();
+          setIsSidebarOpen(false);
+        }}
+        onCreate={createNewCase}
+        onRename={renameCase}
+        onDuplicate={copyCase}
+        onDelete={deleteCase}
+        onExport={exportCase}
+        onShare={shareCase}
+        onImportFile={importCaseFile}
+      />
+
+      <AnimatePresence>
+        {pendingImport && (
+          <ImportDialog
+            workbook={pendingImport.workbook}
+            fileName={pendingImport.fileName}
+            display={display}
+            onClose={() => setPendingImport(null)}
+            onImport={confirmImport}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isSeriesOpen && (
+          <SeriesDialog
+            display={display}
+            onClose={() => setIsSeriesOpen(false)}
+            onImport={(newCheques) => {
+              appendCheques(newCheques);
+              setIsSeriesOpen(false);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {verifyInput !== null && (
+          <VerifyDialog
+            initialInput={verifyInput}
+            calendar={holidayCalendar}
+            display={display}
+            describeError={describeCaseFileError}
+            onOpenCase={openVerifiedCase}
+            onClose={() => setVerifyInput(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {ocrReview && (
+          <OcrReviewDialog
+            rows={ocrReview.rows}
+            errors={ocrReview.errors}
+            unit={display.unit}
+            onClose={() => setOcrReview(null)}
+            onImport={confirmOcr}
+          />
+        )}
+      </AnimatePresence>
+
+      <div className="max-w-4xl mx-auto space-y-8 p-4 bg-transparent">
         {/* Header */}
         <motion.div 
           initial={{ opacity: 0, y: -20 }}
@@ -287,8 +551,48 @@ export default function App() {
           </div>
           <h1 className="text-4xl font-extrabold text-slate-900 tracking-tight">محاسبه راس چک</h1>
           <p className="text-slate-500 text-lg print:text-slate-600">ابزار هوشمند محاسبه میانگین زمانی و راس چک‌های دریافتی و پرداختی</p>
+          <button
+            onClick={() => setIsSidebarOpen(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white/80 border border-slate-200/60 rounded-2xl text-slate-700 hover:bg-white hover:border-indigo-200 active:scale-95 transition-all text-sm font-semibold shadow-sm print:border-none print:shadow-none print:p-0"
+          >
+            <FolderOpen className="w-4 h-4 text-indigo-600 print:hidden" /> {activeCase.name}
+          </button>
+          <button
+            onClick={() => setVerifyInput('')}
+            title="بررسی صحت گزارش چاپی یا PDF"
+            className="inline-flex items-center gap-2 px-4 py-2 ms-2 bg-white/80 border border-slate-200/60 rounded-2xl text-slate-700 hover:bg-white hover:border-indigo-200 active:scale-95 transition-all text-sm font-semibold shadow-sm print:hidden"
+          >
+            <ShieldCheck className="w-4 h-4 text-indigo-600" /> بررسی گزارش
+          </button>
+          <DisplayControls display={display} onChange={setDisplay} />
+          {!isOnline && (
+            <p className="inline-flex items-center gap-2 px-3 py-1.5 bg-amber-50 text-amber-700 border border-amber-200 rounded-2xl text-xs font-semibold print:hidden">
+              <WifiOff className="w-4 h-4" /> آفلاین هستید؛ محاسبه و خروجی‌ها کار می‌کنند و تصاویر پس از اتصال خوانده می‌شوند
+            </p>
+          )}
         </motion.div>
 
+        {sharedCase && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-amber-200 bg-amber-50/80 p-4 sm:px-6 print:hidden"
+          >
+            <div className="flex items-center gap-3 text-amber-800">
+              <Eye className="w-5 h-5 shrink-0" />
+              <p className="text-sm font-medium">پرونده «{sharedCase.name}» از لینک اشتراک باز شده و فقط خواندنی است.</p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={saveSharedCase} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-indigo-200">
+                <Save className="w-4 h-4" /> ذخیره نسخه قابل ویرایش
+              </button>
+              <button onClick={closeSharedCase} title="بستن" className="p-2 text-amber-700 hover:bg-amber-100 rounded-xl transition-all">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Top Controls */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Base Date Card */}
@@ -304,19 +608,16 @@ export default function App() {
               <h2 className="text-lg font-bold text-slate-800">تاریخ مبدا</h2>
             </div>
             <div>
-              {isGeneratingPDF ? (
-                <div className="w-full px-5 py-3 text-left dir-ltr text-lg font-medium text-slate-800" dir="ltr">{baseDate}</div>
-              ) : (
-                <input
-                  type="text"
-                  value={baseDate}
-                  onChange={(e) => setBaseDate(formatJalaliInput(e.target.value))}
-                  placeholder="1403/01/01"
-                  className={`w-full px-5 py-3 bg-slate-50/50 border rounded-2xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left dir-ltr text-lg print:border-none print:p-0 print:text-right print:font-medium print:bg-transparent ${!isBaseValid && baseDate.length >= 8 ? 'border-red-300 bg-red-50/50 text-red-900' : 'border-slate-200/60'}`}
-                  dir="ltr"
-                />
-              )}
-              {!isBaseValid && baseDate.length >= 8 && !isGeneratingPDF && (
+              <input
+                type="text"
+                value={baseDate}
+                onChange={(e) => setBaseDate(formatJalaliInput(e.target.value))}
+                disabled={isReadOnly}
+                placeholder="1403/01/01"
+                className={`w-full px-5 py-3 bg-slate-50/50 border rounded-2xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left dir-ltr text-lg print:border-none print:p-0 print:text-right print:font-medium print:bg-transparent ${!isBaseValid && baseDate.length >= 8 ? 'border-red-300 bg-red-50/50 text-red-900' : 'border-slate-200/60'}`}
+                dir="ltr"
+              />
+              {!isBaseValid && baseDate.length >= 8 && (
                 <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-red-500 text-sm mt-2 font-medium print:hidden">تاریخ وارد شده نامعتبر است</motion.p>
               )}
             </div>
@@ -326,120 +627,75 @@ export default function App() {
           <motion.div 
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
-            className={`bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 flex flex-wrap gap-3 items-center justify-center print:hidden ${isGeneratingPDF ? 'hidden' : ''}`}
+            className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 flex flex-wrap gap-3 items-center justify-center print:hidden"
           >
+            {!isReadOnly && (
+              <>
             <button onClick={addCheque} className="flex items-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-indigo-200">
               <Plus className="w-4 h-4" /> افزودن چک
             </button>
+            <button onClick={() => setIsSeriesOpen(true)} className="flex items-center gap-2 px-4 py-3 bg-indigo-50 text-indigo-700 rounded-2xl hover:bg-indigo-100 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center">
+              <ListOrdered className="w-4 h-4" /> سری اقساط
+            </button>
             <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-3 bg-emerald-600 text-white rounded-2xl hover:bg-emerald-700 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-emerald-200">
               <FileSpreadsheet className="w-4 h-4" /> بارگذاری اکسل
             </button>
-            <input type="file" ref={fileInputRef} onChange={handleExcelUpload} accept=".xlsx,.xls" className="hidden" />
+            <input type="file" ref={fileInputRef} onChange={handleExcelUpload} accept=".xlsx,.xls,.csv" className="hidden" />
             
             <button onClick={() => imageInputRef.current?.click()} disabled={isLoadingOCR} className="flex items-center gap-2 px-4 py-3 bg-amber-500 text-white rounded-2xl hover:bg-amber-600 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-amber-200 disabled:opacity-70">
               {isLoadingOCR ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />} خواندن از عکس
+              {queuedImages > 0 && (
+                <span title="تصاویر در صف خواندن" className="min-w-5 px-1.5 py-0.5 bg-white/90 text-amber-700 rounded-full text-xs font-bold">{queuedImages}</span>
+              )}
             </button>
-            <input type="file" ref={imageInputRef} onChange={handleImageUpload} accept="image/*" className="hidden" />
+            <input type="file" ref={imageInputRef} onChange={handleImageUpload} accept="image/*,application/pdf" multiple className="hidden" />
 
             <button onClick={clearAll} className="flex items-center gap-2 px-4 py-3 bg-rose-500 text-white rounded-2xl hover:bg-rose-600 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-rose-200">
               <Trash className="w-4 h-4" /> پاک کردن همه
             </button>
+            <div className="flex gap-2 w-[150px]">
+              <button onClick={undo} disabled={history.past.length === 0} title="بازگشت (Ctrl+Z)" className="flex-1 flex items-center justify-center py-3 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all disabled:opacity-40">
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button onClick={redo} disabled={history.future.length === 0} title="انجام مجدد (Ctrl+Y)" className="flex-1 flex items-center justify-center py-3 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all disabled:opacity-40">
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+              </>
+            )}
+            {results && (
+              <button onClick={downloadExcel} className="flex items-center gap-2 px-4 py-3 bg-emerald-700 text-white rounded-2xl hover:bg-emerald-800 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-emerald-200">
+                <Download className="w-4 h-4" /> خروجی اکسل
+              </button>
+            )}
             {results && (
-              <button onClick={downloadPDF} className="flex items-center gap-2 px-4 py-3 bg-slate-800 text-white rounded-2xl hover:bg-slate-900 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-slate-300">
-                <Printer className="w-4 h-4" /> خروجی PDF
+              <button onClick={downloadPDF} disabled={isGeneratingPDF} className="flex items-center gap-2 px-4 py-3 bg-slate-800 text-white rounded-2xl hover:bg-slate-900 active:scale-95 transition-all text-sm font-semibold w-[150px] justify-center shadow-sm shadow-slate-300 disabled:opacity-70">
+                {isGeneratingPDF ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />} خروجی PDF
               </button>
             )}
           </motion.div>
         </div>
 
-        {/* Cheques Table */}
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 overflow-hidden print:shadow-none print:border-slate-200"
-        >
-          <div className="p-5 sm:p-6 border-b border-slate-100 bg-white flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600 print:hidden">
-                <DollarSign className="w-5 h-5" />
-              </div>
-              <h2 className="text-lg font-bold text-slate-800">لیست چک‌ها <span className="text-sm font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full mr-2">({cheques.length})</span></h2>
-            </div>
-          </div>
-
-          <div className="overflow-x-auto">
-            <table className="w-full text-right border-collapse">
-              <thead>
-                <tr className="bg-slate-50/50 border-b border-slate-100 text-slate-500 text-sm">
-                  <th className="p-4 font-semibold w-16 text-center">ردیف</th>
-                  <th className="p-4 font-semibold">مبلغ (ریال)</th>
-                  <th className="p-4 font-semibold">تاریخ سررسید</th>
-                  <th className="p-4 font-semibold text-center">روزها</th>
-                  <th className={`p-4 font-semibold text-center print:hidden w-20 ${isGeneratingPDF ? 'hidden' : ''}`}>عملیات</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-100/80">
-                <AnimatePresence mode="popLayout">
-                  {processedCheques.map((cheque, index) => (
-                    <motion.tr 
-                      layout
-                      initial={{ opacity: 0, scale: 0.95, backgroundColor: '#f8fafc' }}
-                      animate={{ opacity: 1, scale: 1, backgroundColor: cheque.isInvalid ? '#fef2f2' : '#ffffff' }}
-                      exit={{ opacity: 0, scale: 0.95, backgroundColor: '#f8fafc' }}
-                      transition={{ duration: 0.2 }}
-                      key={cheque.id} 
-                      className="group hover:bg-slate-50/80 transition-colors"
-                    >
-                      <td className="p-4 text-center text-slate-400 font-medium">{index + 1}</td>
-                      <td className="p-4">
-                        {isGeneratingPDF ? (
-                          <div className="w-full px-4 py-2.5 text-left font-medium text-slate-700" dir="ltr">{formatNumber(cheque.amount)}</div>
-                        ) : (
-                          <input
-                            type="text"
-                            value={formatNumber(cheque.amount)}
-                            onChange={(e) => {
-                              const val = e.target.value.replace(/\D/g, '');
-                              updateCheque(cheque.id, 'amount', val);
-                            }}
-                            placeholder="مثلا 10,000,000"
-                            className="w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left print:border-none print:p-0 print:text-right print:bg-transparent font-medium text-slate-700"
-                            dir="ltr"
-                          />
-                        )}
-                      </td>
-                      <td className="p-4">
-                        {isGeneratingPDF ? (
-                          <div className="w-full px-4 py-2.5 text-left font-medium text-slate-700" dir="ltr">{cheque.date}</div>
-                        ) : (
-                          <input
-                            type="text"
-                            value={cheque.date}
-                            onChange={(e) => updateCheque(cheque.id, 'date', formatJalaliInput(e.target.value))}
-                            placeholder="1403/05/12"
-                            className={`w-full px-4 py-2.5 bg-slate-50/50 border rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left print:border-none print:p-0 print:text-right print:bg-transparent font-medium text-slate-700 ${cheque.isInvalid ? 'border-red-300 bg-red-50/50 text-red-900 focus:border-red-500 focus:ring-red-500/10' : 'border-slate-200/60'}`}
-                            dir="ltr"
-                          />
-                        )}
-                      </td>
-                      <td className="p-4 text-center font-bold text-slate-600" dir="ltr">
-                        {cheque.days}
-                      </td>
-                      <td className={`p-4 text-center print:hidden ${isGeneratingPDF ? 'hidden' : ''}`}>
-                        <button
-                          onClick={() => removeCheque(cheque.id)}
-                          className="p-2.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400 cursor-pointer active:scale-90"
-                        >
-                          <Trash2 className="w-5 h-5 mx-auto" />
-                        </button>
-                      </td>
-                    </motion.tr>
-                  ))}
-                </AnimatePresence>
-              </tbody>
-            </table>
-          </div>
-        </motion.div>
+        {/* Editing controls are disabled while viewing a shared case */}
+        <fieldset disabled={isReadOnly} className="space-y-8 min-w-0">
+        <ChequeTable
+          baseDate={baseDate}
+          processedCheques={processedCheques}
+          discount={discount}
+          excludedStatuses={settings.excludedStatuses}
+          businessDays={businessDays}
+          upcomingDays={settings.upcomingDays}
+          display={display}
+          onExcludedChange={(excludedStatuses) => updateSettings({ excludedStatuses })}
+          onUpdate={updateCheque}
+          onAdd={addCheque}
+          onPasteRows={pasteRows}
+          onRemove={removeCheque}
+          onRemoveMany={(ids) => setCheques(removeCheques(cheques, ids))}
+          onDuplicate={(ids) => setCheques(duplicateCheques(cheques, ids))}
+          onShift={(ids, amount, unit) => setCheques(shiftChequeDates(cheques, ids, amount, unit))}
+          onSort={(key, direction) => setCheques(sortCheques(cheques, key, direction))}
+        />
 
         {/* Results Card */}
         <AnimatePresence>
@@ -465,21 +721,127 @@ export default function App() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-5 sm:gap-6 relative z-10">
                 <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/10 print:bg-slate-50 print:border-slate-200">
                   <p className="text-indigo-100 text-sm mb-2 font-medium print:text-slate-500">جمع کل مبالغ</p>
-                  <p className="text-2xl sm:text-3xl font-extrabold print:text-slate-900 tracking-tight">{formatNumber(results.totalAmount)} <span className="text-sm font-normal opacity-70">ریال</span></p>
+                  <p className="text-2xl sm:text-3xl font-extrabold print:text-slate-900 tracking-tight">{formatAmount(results.totalAmount, display)} <span className="text-sm font-normal opacity-70">{amountUnitLabels[display.unit]}</span></p>
+                  <p className="text-xs text-indigo-100 mt-1.5 leading-relaxed print:text-slate-600">{amountInWords(results.totalAmount, display.unit)}</p>
                 </div>
                 <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/10 print:bg-slate-50 print:border-slate-200">
                   <p className="text-indigo-100 text-sm mb-2 font-medium print:text-slate-500">میانگین وزنی روزها</p>
-                  <p className="text-2xl sm:text-3xl font-extrabold print:text-slate-900 tracking-tight" dir="rtl">{results.averageDays} <span className="text-sm font-normal opacity-70">روز</span></p>
+                  <p className="text-2xl sm:text-3xl font-extrabold print:text-slate-900 tracking-tight" dir="rtl">{localizeDigits(String(results.averageDays), display.digits)} <span className="text-sm font-normal opacity-70">روز</span></p>
                 </div>
                 <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/10 print:bg-slate-50 print:border-slate-200">
                   <p className="text-indigo-100 text-sm mb-2 font-medium print:text-slate-500">تاریخ دقیق راس</p>
-                  <p className="text-2xl sm:text-3xl font-extrabold text-emerald-300 print:text-emerald-600 tracking-tight">{results.rasDate}</p>
+                  <p className="text-2xl sm:text-3xl font-extrabold text-emerald-300 print:text-emerald-600 tracking-tight">{localizeDigits(results.adjustedRasDate, display.digits)}</p>
+                  {businessDays && (
+                    <p className="text-xs text-indigo-100 mt-1.5 print:text-slate-500">
+                      {results.adjustedRasDate === results.rasDate ? 'روز کاری است' : `راس تقویمی: ${localizeDigits(results.rasDate, display.digits)}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <DiscountPanel
+          settings={settings}
+          onChange={updateSettings}
+          summary={discount}
+          results={results}
+          display={display}
+        />
+
+        {/* Settlement Card */}
+        <AnimatePresence>
+          {settlement && (
+            <motion.div 
+              initial={{ opacity: 0, y: 20, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:shadow-none print:border-slate-200 print:p-6"
+            >
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600 print:hidden">
+                  <Scale className="w-5 h-5" />
+                </div>
+                <h2 className="text-lg font-bold text-slate-800">تسویه دریافتی و پرداختی</h2>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+                {(['received', 'paid'] as ChequeType[]).map(type => {
+                  const side = settlement[type];
+                  return (
+                    <div key={type} className={`rounded-2xl p-5 border ${type === 'paid' ? 'bg-rose-50/50 border-rose-100' : 'bg-emerald-50/50 border-emerald-100'}`}>
+                      <p className={`text-sm mb-3 font-semibold ${type === 'paid' ? 'text-rose-600' : 'text-emerald-600'}`}>چک‌های {chequeTypeLabels[type]}</p>
+                      {side ? (
+                        <div className="space-y-1.5 text-slate-700">
+                          <p className="text-xl font-extrabold tracking-tight">{formatAmount(side.totalAmount, display)} <span className="text-sm font-normal opacity-70">{amountUnitLabels[display.unit]}</span></p>
+                          <p className="text-sm">میانگین: <span className="font-bold">{localizeDigits(String(side.averageDays), display.digits)}</span> روز</p>
+                          <p className="text-sm">راس: <span className="font-bold">{localizeDigits(side.adjustedRasDate, display.digits)}</span>{side.adjustedRasDate !== side.rasDate && <span className="text-xs text-slate-400"> (تقویمی {localizeDigits(side.rasDate, display.digits)})</span>}</p>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-slate-400">چکی ثبت نشده است</p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="rounded-2xl p-5 border bg-indigo-50/50 border-indigo-100">
+                  <p className="text-sm mb-3 font-semibold text-indigo-600">
+                    {settlement.netAmount > 0n ? 'خالص دریافتنی' : settlement.netAmount < 0n ? 'خالص پرداختنی' : 'تراز'}
+                  </p>
+                  <div className="space-y-1.5 text-slate-700">
+                    <p className="text-xl font-extrabold tracking-tight">{formatAmount(settlement.netAmount < 0n ? -settlement.netAmount : settlement.netAmount, display) || '0'} <span className="text-sm font-normal opacity-70">{amountUnitLabels[display.unit]}</span></p>
+                    {settlement.netRasDate ? (
+                      <p className="text-sm">
+                        تاریخ سررسید خالص: <span className="font-bold text-indigo-700">{localizeDigits(settlement.netAdjustedRasDate, display.digits)}</span>
+                        {settlement.netAdjustedRasDate !== settlement.netRasDate && <span className="text-xs text-slate-400"> (تقویمی {localizeDigits(settlement.netRasDate, display.digits)})</span>}
+                      </p>
+                    ) : settlement.netOutOfRange ? (
+                      <p className="text-sm text-amber-600">مبالغ دو طرف تقریباً برابر است؛ تاریخ سررسید خالص بیرون از بازه تقویم می‌افتد</p>
+                    ) : (
+                      <p className="text-sm text-slate-400">مبالغ دو طرف برابر است</p>
+                    )}
+                  </div>
                 </div>
               </div>
             </motion.div>
           )}
         </AnimatePresence>
         
+        <BusinessDayPanel
+          settings={settings}
+          onChange={updateSettings}
+          calendar={holidayCalendar}
+          onCalendarChange={setHolidayCalendar}
+        />
+
+        <CashflowDashboard
+          processedCheques={processedCheques}
+          calendar={businessDays?.calendar ?? null}
+          upcomingDays={settings.upcomingDays}
+          display={display}
+          onUpcomingDaysChange={(upcomingDays) => updateSettings({ upcomingDays })}
+        />
+
+        {isBaseValid && (
+          <RasSolver
+            baseDate={baseDate}
+            cheques={cheques}
+            excludedStatuses={settings.excludedStatuses}
+            businessDays={businessDays}
+            display={display}
+            onAddCheque={(cheque) => appendCheques([{ ...createEmptyCheque(), ...cheque }])}
+          />
+        )}
+        </fieldset>
+
+        {ledger && (
+          <LedgerPanel
+            report={ledger}
+            display={display}
+            onExport={() => downloadLedgerWorkbook({ caseName: activeCase.name, baseDate, report: ledger })}
+          />
+        )}
+
         {!results && (
           <motion.div 
             initial={{ opacity: 0 }}
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import type { AmountUnit } from '../types';
+import { toLatinDigits } from '../lib/normalize';
+import { formatInUnit, parseUnitAmount, unitToRial } from '../lib/money';
+
+type AmountInputProps = Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> & {
+  // Rial digits; shown and typed in `unit`
+  value: string;
+  unit: AmountUnit;
+  onChange: (digits: string) => void;
+};
+
+// Amount field that also takes shorthand such as 50m or ۵۰ میلیون. Plain digits are applied
+// as they are typed; anything else is kept as a draft and expanded when the field loses focus.
+export default function AmountInput({ value, unit, onChange, onBlur, ...props }: AmountInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const digits = toLatinDigits(e.target.value).replace(/[,٬\s]/g, '');
+    if (/^\d*$/.test(digits)) {
+      setDraft(null);
+      onChange(unitToRial(digits, unit));
+    } else {
+      setDraft(e.target.value);
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (draft !== null) {
+      const digits = parseUnitAmount(draft, unit);
+      if (digits !== null) onChange(digits);
+      setDraft(null);
+    }
+    onBlur?.(e);
+  };
+
+  return (
+    <input
+      type="text"
+      {...props}
+      value={draft ?? formatInUnit(value, unit)}
+      onChange={handleChange}
+      onBlur={handleBlur}
+    />
+  );
+}
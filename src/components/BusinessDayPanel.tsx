@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { Briefcase, Upload, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { CaseSettings, HolidayCalendar, RollDirection } from '../types';
+import { JALALI_WEEKDAY_NAMES, formatJalaliInput } from '../lib/jalali';
+import { defaultHolidayCalendar, mergeHolidays, parseHolidayFile, rollDirectionLabels } from '../lib/holidays';
+
+type BusinessDayPanelProps = {
+  settings: CaseSettings;
+  onChange: (patch: Partial<CaseSettings>) => void;
+  calendar: HolidayCalendar;
+  onCalendarChange: (calendar: HolidayCalendar) => void;
+};
+
+export default function BusinessDayPanel({ settings, onChange, calendar, onCalendarChange }: BusinessDayPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draftDate, setDraftDate] = useState('');
+  const [draftName, setDraftName] = useState('');
+
+  const toggleWeekend = (day: number) => {
+    onCalendarChange({
+      ...calendar,
+      weekendDays: calendar.weekendDays.includes(day)
+        ? calendar.weekendDays.filter(d => d !== day)
+        : [...calendar.weekendDays, day].sort()
+    });
+  };
+
+  const addHoliday = () => {
+    const { holidays, invalid } = parseHolidayFile(`${draftDate},${draftName}`, 'manual.csv');
+    if (invalid.length > 0 || holidays.length === 0) {
+      alert('تاریخ تعطیلی نامعتبر است');
+      return;
+    }
+    onCalendarChange(mergeHolidays(calendar, holidays));
+    setDraftDate('');
+    setDraftName('');
+  };
+
+  const removeHoliday = (date: string) => {
+    onCalendarChange({ ...calendar, holidays: calendar.holidays.filter(h => h.date !== date) });
+  };
+
+  const resetCalendar = () => {
+    if (window.confirm('تقویم تعطیلات به حالت پیش‌فرض برگردد؟')) {
+      onCalendarChange(defaultHolidayCalendar());
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { holidays, invalid } = parseHolidayFile(await file.text(), file.name);
+      onCalendarChange(mergeHolidays(calendar, holidays));
+      alert(`${holidays.length} تعطیلی اضافه شد${invalid.length ? `؛ ${invalid.length} ردیف نامعتبر نادیده گرفته شد` : ''}`);
+    } catch (err) {
+      console.error(err);
+      alert('خطا در خواندن فایل تعطیلات');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const inputClass = "px-3 py-2 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+            <Briefcase className="w-5 h-5" />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">روزهای کاری و تعطیلات</h2>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.businessDayMode}
+            onChange={(e) => onChange({ businessDayMode: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          محاسبه بر اساس روز کاری
+        </label>
+      </div>
+
+      {settings.businessDayMode && (
+        <div className="space-y-6">
+          <p className="text-sm text-slate-500">
+            چک‌هایی که سررسیدشان به تعطیلی می‌خورد از اولین روز کاری بعد قابل وصول حساب می‌شوند و تاریخ راس به روز کاری منتقل می‌شود.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-500 block">انتقال راس در روز تعطیل به</span>
+              <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold w-fit">
+                {(['next', 'previous'] as RollDirection[]).map(direction => (
+                  <button
+                    key={direction}
+                    onClick={() => onChange({ rollDirection: direction })}
+                    className={`px-4 py-1.5 rounded-xl transition-all ${settings.rollDirection === direction ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {rollDirectionLabels[direction]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-500 block">تعطیلی هفتگی</span>
+              <div className="flex flex-wrap gap-x-3 gap-y-1.5 text-sm text-slate-600">
+                {JALALI_WEEKDAY_NAMES.map((name, day) => (
+                  <label key={day} className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={calendar.weekendDays.includes(day)}
+                      onChange={() => toggleWeekend(day)}
+                      className="w-4 h-4 accent-indigo-600"
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span className="text-sm font-medium text-slate-500">تعطیلات رسمی ({calendar.holidays.length})</span>
+              <div className="flex gap-2">
+                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 rounded-xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+                  <Upload className="w-4 h-4" /> بارگذاری JSON / CSV
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json,.csv,.txt" className="hidden" />
+                <button onClick={resetCalendar} title="بازگشت به پیش‌فرض" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={draftDate}
+                onChange={(e) => setDraftDate(e.target.value.length > 5 ? formatJalaliInput(e.target.value) : e.target.value)}
+                placeholder="1403/02/15 یا 02/15"
+                className={`${inputClass} w-44 text-left`}
+                dir="ltr"
+              />
+              <input
+                type="text"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder="عنوان تعطیلی"
+                className={`${inputClass} flex-1 min-w-[8rem]`}
+              />
+              <button onClick={addHoliday} disabled={!draftDate} className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold disabled:opacity-50">
+                <Plus className="w-4 h-4" /> افزودن
+              </button>
+            </div>
+
+            <ul className="max-h-56 overflow-y-auto divide-y divide-slate-100 rounded-2xl border border-slate-100">
+              {calendar.holidays.map(holiday => (
+                <li key={holiday.date} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                  <span className="text-slate-700">
+                    <span className="font-semibold" dir="ltr">{holiday.date}</span>
+                    {holiday.date.length === 5 && <span className="text-xs text-slate-400"> (هر سال)</span>}
+                    {holiday.name && <span className="text-slate-500"> · {holiday.name}</span>}
+                  </span>
+                  <button onClick={() => removeHoliday(holiday.date)} title="حذف" className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+              {calendar.holidays.length === 0 && (
+                <li className="px-4 py-6 text-center text-sm text-slate-400">تعطیلی ثبت نشده است</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Plus, Copy, Pencil, Trash2, X, Check, FileJson, Link2, Upload } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import type { Case } from '../types';
+
+type CaseSidebarProps = {
+  isOpen: boolean;
+  cases: Case[];
+  activeCaseId: string;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onShare: (id: string) => void;
+  onImportFile: (file: File) => void;
+};
+
+export default function CaseSidebar({
+  isOpen,
+  cases,
+  activeCaseId,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onShare,
+  onImportFile
+}: CaseSidebarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (c: Case) => {
+    setEditingId(c.id);
+    setDraftName(c.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (c: Case) => {
+    if (window.confirm(`آیا از حذف پرونده «${c.name}» اطمینان دارید؟`)) {
+      onDelete(c.id);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-slate-900/20 backdrop-blur-sm z-40 print:hidden"
+          />
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.2 }}
+            className="fixed top-0 right-0 h-full w-80 max-w-full bg-white shadow-2xl z-50 flex flex-col print:hidden"
+          >
+            <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+                  <FolderOpen className="w-5 h-5" />
+                </div>
+                <h2 className="text-lg font-bold text-slate-800">پرونده‌ها</h2>
+              </div>
+              <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-xl transition-all">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 flex gap-2">
+              <button onClick={onCreate} className="flex-1 flex items-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold justify-center shadow-sm shadow-indigo-200">
+                <Plus className="w-4 h-4" /> پرونده جدید
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} title="بارگذاری فایل پرونده (JSON)" className="flex items-center gap-2 px-4 py-3 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+                <Upload className="w-4 h-4" />
+              </button>
+              <input type="file" ref={fileInputRef} onChange={handleFile} accept=".json,application/json" className="hidden" />
+            </div>
+
+            <ul className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+              {cases.map(c => (
+                <li
+                  key={c.id}
+                  className={`rounded-2xl border p-3 transition-all ${c.id === activeCaseId ? 'border-indigo-200 bg-indigo-50/60' : 'border-slate-100 hover:bg-slate-50'}`}
+                >
+                  {editingId === c.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        type="text"
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 min-w-0 px-3 py-1.5 bg-white border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none text-sm"
+                      />
+                      <button onClick={commitRename} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => onSelect(c.id)} className="w-full text-right">
+                      <p className="font-semibold text-slate-800 truncate">{c.name}</p>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {c.cheques.filter(ch => ch.amount || ch.date).length} چک · مبدا {c.baseDate || '-'}
+                      </p>
+                    </button>
+                  )}
+                  <div className="flex items-center gap-1 mt-2 text-slate-400">
+                    <button onClick={() => startRename(c)} title="تغییر نام" className="p-1.5 hover:text-indigo-600 hover:bg-white rounded-lg transition-all">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onDuplicate(c.id)} title="کپی" className="p-1.5 hover:text-indigo-600 hover:bg-white rounded-lg transition-all">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onExport(c.id)} title="دانلود فایل پرونده" className="p-1.5 hover:text-indigo-600 hover:bg-white rounded-lg transition-all">
+                      <FileJson className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onShare(c.id)} title="کپی لینک اشتراک" className="p-1.5 hover:text-indigo-600 hover:bg-white rounded-lg transition-all">
+                      <Link2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => confirmDelete(c)} title="حذف" className="p-1.5 hover:text-rose-500 hover:bg-white rounded-lg transition-all">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, ChevronRight, ChevronLeft, AlertTriangle, Clock } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { AmountUnit, DisplaySettings, HolidayCalendar } from '../types';
+import {
+  JALALI_MONTH_NAMES,
+  JALALI_WEEKDAY_NAMES,
+  addJalaliDays,
+  addJalaliMonths,
+  diffJalaliDays,
+  formatJalali,
+  getTodayJalali,
+  jalaliMonthLength,
+  jalaliWeekday,
+  parseJalali
+} from '../lib/jalali';
+import type { ProcessedCheque } from '../lib/ras';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+import { aggregateCashflow, periodStart, summarizeDue, type CashflowBucket, type Period } from '../lib/cashflow';
+import { chequeTypeLabels } from '../lib/cases';
+import { findHoliday, isBusinessDay } from '../lib/holidays';
+
+type CashflowDashboardProps = {
+  processedCheques: ProcessedCheque[];
+  // Shades weekends and holidays when business-day mode is on
+  calendar: HolidayCalendar | null;
+  upcomingDays: number;
+  display: DisplaySettings;
+  onUpcomingDaysChange: (days: number) => void;
+};
+
+type View = 'calendar' | 'timeline';
+
+const viewLabels: Record<View, string> = {
+  calendar: 'تقویم',
+  timeline: 'نمودار زمانی',
+};
+
+const periodLabels: Record<Period, string> = {
+  day: 'روزانه',
+  week: 'هفتگی',
+  month: 'ماهانه',
+};
+
+const UPCOMING_OPTIONS = [7, 14, 30, 60, 90];
+
+// Short amount for calendar cells, e.g. 12.5M; the exact figure is in the tooltip
+const compactAmount = (amount: bigint, unit: AmountUnit) => {
+  const value = Number(unit === 'toman' ? amount / 10n : amount);
+  if (value >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e3) return `${+(value / 1e3).toFixed(1)}K`;
+  return String(value);
+};
+
+const bucketTitle = (bucket: CashflowBucket, display: DisplaySettings) =>
+  `${bucket.label}\nدریافتی: ${formatAmount(bucket.received, display) || '0'}\nپرداختی: ${formatAmount(bucket.paid, display) || '0'}`;
+
+function BucketAmounts({ bucket, unit }: { bucket?: CashflowBucket; unit: AmountUnit }) {
+  if (!bucket) return null;
+  return (
+    <div className="text-[10px] leading-tight font-semibold" dir="ltr">
+      {bucket.received > 0n && <p className="text-emerald-600">+{compactAmount(bucket.received, unit)}</p>}
+      {bucket.paid > 0n && <p className="text-rose-600">-{compactAmount(bucket.paid, unit)}</p>}
+    </div>
+  );
+}
+
+function DueList({ title, cheques, today, tone, display }: { title: string; cheques: ProcessedCheque[]; today: string; tone: 'rose' | 'amber'; display: DisplaySettings }) {
+  const Icon = tone === 'rose' ? AlertTriangle : Clock;
+  return (
+    <div className={`rounded-2xl p-4 border ${tone === 'rose' ? 'bg-rose-50/50 border-rose-100' : 'bg-amber-50/50 border-amber-100'}`}>
+      <p className={`flex items-center gap-2 text-sm font-semibold mb-3 ${tone === 'rose' ? 'text-rose-600' : 'text-amber-600'}`}>
+        <Icon className="w-4 h-4" /> {title}
+      </p>
+      {cheques.length === 0 ? (
+        <p className="text-sm text-slate-400">موردی نیست</p>
+      ) : (
+        <ul className="space-y-1.5 max-h-48 overflow-y-auto text-sm">
+          {cheques.map(c => {
+            const days = diffJalaliDays(today, c.date);
+            return (
+              <li key={c.id} className="flex items-center justify-between gap-3 text-slate-700">
+                <span className="truncate">
+                  <span className="font-semibold" dir="ltr">{localizeDigits(c.date, display.digits)}</span>
+                  <span className="text-slate-400"> · {c.counterparty || chequeTypeLabels[c.type]}</span>
+                </span>
+                <span className="shrink-0 flex items-center gap-2">
+                  <span className={`font-bold ${c.type === 'paid' ? 'text-rose-600' : 'text-emerald-600'}`}>{formatAmount(c.parsedAmount, display)}</span>
+                  <span className="text-xs text-slate-400">{localizeDigits(days < 0 ? `${-days} روز گذشته` : days === 0 ? 'امروز' : `${days} روز دیگر`, display.digits)}</span>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function CashflowDashboard({ processedCheques, calendar, upcomingDays, display, onUpcomingDaysChange }: CashflowDashboardProps) {
+  const today = useMemo(() => getTodayJalali(), []);
+  const [view, setView] = useState<View>('calendar');
+  const [period, setPeriod] = useState<Period>('month');
+  const [month, setMonth] = useState(() => parseJalali(today));
+
+  const due = useMemo(() => summarizeDue(processedCheques, today, upcomingDays), [processedCheques, today, upcomingDays]);
+  const dayBuckets = useMemo(() => new Map(aggregateCashflow(processedCheques, 'day').map(b => [b.key, b])), [processedCheques]);
+  const weekBuckets = useMemo(() => new Map(aggregateCashflow(processedCheques, 'week').map(b => [b.key, b])), [processedCheques]);
+  const monthBuckets = useMemo(() => new Map(aggregateCashflow(processedCheques, 'month').map(b => [b.key, b])), [processedCheques]);
+  const timeline = useMemo(() => aggregateCashflow(processedCheques, period), [processedCheques, period]);
+
+  const overdueDates = useMemo(() => new Set(due.overdue.map(c => c.date)), [due]);
+  const upcomingDates = useMemo(() => new Set(due.upcoming.map(c => c.date)), [due]);
+
+  // Calendar rows run Saturday to Friday and always cover whole weeks
+  const weeks = useMemo(() => {
+    const first = formatJalali({ jy: month.jy, jm: month.jm, jd: 1 });
+    const length = jalaliMonthLength(month.jy, month.jm);
+    const gridStart = addJalaliDays(first, -jalaliWeekday(first));
+    const cellCount = Math.ceil((jalaliWeekday(first) + length) / 7) * 7;
+    const rows: string[][] = [];
+    for (let i = 0; i < cellCount; i += 7) {
+      rows.push(Array.from({ length: 7 }, (_, d) => addJalaliDays(gridStart, i + d)));
+    }
+    return rows;
+  }, [month]);
+
+  const currentBucket = periodStart(today, period);
+  const monthKey = formatJalali({ jy: month.jy, jm: month.jm, jd: 1 });
+  const maxBucket = timeline.reduce((max, b) => (b.received > max ? b.received : b.paid > max ? b.paid : max), 0n);
+  const barHeight = (amount: bigint) => (maxBucket === 0n ? 0 : Number((amount * 1000n) / maxBucket) / 10);
+
+  const selectClass = "px-3 py-1.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+            <CalendarDays className="w-5 h-5" />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">سررسیدها و جریان نقدی</h2>
+        </div>
+        <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold">
+          {(Object.keys(viewLabels) as View[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1.5 rounded-xl transition-all ${view === v ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {viewLabels[v]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <DueList title={`سررسید گذشته و وصول‌نشده · ${formatAmount(due.overdueAmount, display) || '0'} ${amountUnitLabels[display.unit]}`} cheques={due.overdue} today={today} tone="rose" display={display} />
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-500">
+            سررسیدهای
+            <select value={upcomingDays} onChange={(e) => onUpcomingDaysChange(Number(e.target.value))} className={selectClass}>
+              {UPCOMING_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            روز آینده
+          </label>
+          <DueList title={`سررسید نزدیک · ${formatAmount(due.upcomingAmount, display) || '0'} ${amountUnitLabels[display.unit]}`} cheques={due.upcoming} today={today} tone="amber" display={display} />
+        </div>
+      </div>
+
+      {view === 'calendar' ? (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <button onClick={() => setMonth(addJalaliMonths(month, -1))} title="ماه قبل" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <div className="text-center">
+              <p className="font-bold text-slate-800">{JALALI_MONTH_NAMES[month.jm - 1]} {month.jy}</p>
+              <BucketAmounts bucket={monthBuckets.get(monthKey)} unit={display.unit} />
+            </div>
+            <button onClick={() => setMonth(addJalaliMonths(month, 1))} title="ماه بعد" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-8 gap-1 text-center">
+            {JALALI_WEEKDAY_NAMES.map(name => (
+              <div key={name} className="text-xs font-semibold text-slate-400 py-1 truncate">{name}</div>
+            ))}
+            <div className="text-xs font-semibold text-slate-400 py-1">جمع هفته</div>
+
+            {weeks.map(week => (
+              <React.Fragment key={week[0]}>
+                {week.map(date => {
+                  const { jm, jd } = parseJalali(date);
+                  const bucket = dayBuckets.get(date);
+                  const isClosed = calendar !== null && !isBusinessDay(date, calendar);
+                  const holidayName = calendar && findHoliday(date, calendar)?.name;
+                  const tone = overdueDates.has(date)
+                    ? 'border-rose-200 bg-rose-50/60'
+                    : upcomingDates.has(date)
+                      ? 'border-amber-200 bg-amber-50/60'
+                      : isClosed
+                        ? 'border-slate-100 bg-slate-100/70'
+                        : 'border-slate-100';
+                  return (
+                    <div
+                      key={date}
+                      title={[holidayName, bucket ? bucketTitle(bucket, display) : date].filter(Boolean).join('\n')}
+                      className={`min-h-16 rounded-xl border p-1.5 text-right ${tone} ${jm === month.jm ? '' : 'opacity-40'} ${date === today ? 'ring-2 ring-indigo-400' : ''}`}
+                    >
+                      <p className={`text-xs font-semibold ${date === today ? 'text-indigo-600' : isClosed ? 'text-rose-400' : 'text-slate-500'}`}>{jd}</p>
+                      <BucketAmounts bucket={bucket} unit={display.unit} />
+                    </div>
+                  );
+                })}
+                <div title={weekBuckets.get(week[0]) ? bucketTitle(weekBuckets.get(week[0])!, display) : ''} className="min-h-16 rounded-xl bg-slate-50 p-1.5 flex items-center justify-center">
+                  <BucketAmounts bucket={weekBuckets.get(week[0])} unit={display.unit} />
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div className="flex justify-end mb-3">
+            <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold">
+              {(Object.keys(periodLabels) as Period[]).map(p => (
+                <button
+                  key={p}
+                  onClick={() => setPeriod(p)}
+                  className={`px-3 py-1.5 rounded-xl transition-all ${period === p ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {periodLabels[p]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {timeline.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-10">چک معتبری برای نمایش وجود ندارد</p>
+          ) : (
+            <div className="overflow-x-auto pb-2">
+              <div className="flex items-stretch gap-2 min-w-fit">
+                {timeline.map(bucket => {
+                  const isCurrent = bucket.key === currentBucket;
+                  const isPast = bucket.start < currentBucket;
+                  return (
+                    <div key={bucket.key} title={bucketTitle(bucket, display)} className={`w-14 shrink-0 flex flex-col items-center ${isPast ? 'opacity-50' : ''}`}>
+                      <div className="h-24 w-full flex items-end justify-center">
+                        <div className="w-6 rounded-t-lg bg-emerald-400" style={{ height: `${barHeight(bucket.received)}%` }} />
+                      </div>
+                      <div className={`w-full h-px ${isCurrent ? 'bg-indigo-500' : 'bg-slate-300'}`} />
+                      <div className="h-24 w-full flex items-start justify-center">
+                        <div className="w-6 rounded-b-lg bg-rose-400" style={{ height: `${barHeight(bucket.paid)}%` }} />
+                      </div>
+                      <p className={`text-[10px] mt-1 text-center leading-tight ${isCurrent ? 'text-indigo-600 font-bold' : 'text-slate-500'}`}>{bucket.label}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-center gap-4 mt-3 text-xs text-slate-500">
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-emerald-400" /> {chequeTypeLabels.received}</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-rose-400" /> {chequeTypeLabels.paid}</span>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
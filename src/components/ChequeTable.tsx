@@ -0,0 +1,501 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Trash2, DollarSign, ChevronDown, Search, Copy, CalendarClock, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import type { Cheque, ChequeStatus, DisplaySettings } from '../types';
+import { formatJalaliInput, getTodayJalali } from '../lib/jalali';
+import type { ProcessedCheque } from '../lib/ras';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+import { isValidSayadId, toLatinDigits } from '../lib/normalize';
+import { parsePastedRows, type PasteResult } from '../lib/paste';
+import AmountInput from './AmountInput';
+import type { DiscountSummary } from '../lib/discount';
+import { filterCheques, groupCheques, type GroupBy } from '../lib/grouping';
+import { getDueState } from '../lib/cashflow';
+import type { BusinessDayRule } from '../lib/holidays';
+import type { ShiftUnit, SortDirection, SortKey } from '../lib/bulk';
+import { chequeStatusLabels, chequeTypeLabels } from '../lib/cases';
+
+type ChequeTableProps = {
+  baseDate: string;
+  processedCheques: ProcessedCheque[];
+  discount: DiscountSummary | null;
+  excludedStatuses: ChequeStatus[];
+  businessDays: BusinessDayRule | null;
+  upcomingDays: number;
+  display: DisplaySettings;
+  onExcludedChange: (statuses: ChequeStatus[]) => void;
+  onUpdate: (id: string, patch: Partial<Cheque>) => void;
+  onAdd: () => void;
+  onPasteRows: (result: PasteResult) => void;
+  onRemove: (id: string) => void;
+  onRemoveMany: (ids: Set<string>) => void;
+  onDuplicate: (ids: Set<string>) => void;
+  onShift: (ids: Set<string>, amount: number, unit: ShiftUnit) => void;
+  onSort: (key: SortKey, direction: SortDirection) => void;
+};
+
+const groupByLabels: Record<GroupBy, string> = {
+  none: 'بدون گروه‌بندی',
+  counterparty: 'طرف حساب',
+  bank: 'بانک',
+};
+
+const statusColors: Record<ChequeStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  cleared: 'bg-emerald-50 text-emerald-600',
+  bounced: 'bg-rose-50 text-rose-600',
+  cancelled: 'bg-slate-200 text-slate-500',
+};
+
+const detailFields: { field: 'counterparty' | 'bank' | 'branch' | 'serial' | 'note'; label: string }[] = [
+  { field: 'counterparty', label: 'طرف حساب (صادرکننده / گیرنده)' },
+  { field: 'bank', label: 'بانک' },
+  { field: 'branch', label: 'شعبه' },
+  { field: 'serial', label: 'سریال چک' },
+  { field: 'note', label: 'توضیحات' },
+];
+
+const sortOptions: { value: `${SortKey}-${SortDirection}`; label: string }[] = [
+  { value: 'date-asc', label: 'تاریخ، نزدیک به دور' },
+  { value: 'date-desc', label: 'تاریخ، دور به نزدیک' },
+  { value: 'amount-desc', label: 'مبلغ، بیشتر به کمتر' },
+  { value: 'amount-asc', label: 'مبلغ، کمتر به بیشتر' },
+];
+
+type CellColumn = 'amount' | 'date';
+
+const STATUSES = Object.keys(chequeStatusLabels) as ChequeStatus[];
+
+export default function ChequeTable({
+  baseDate,
+  processedCheques,
+  discount,
+  excludedStatuses,
+  businessDays,
+  upcomingDays,
+  display,
+  onExcludedChange,
+  onUpdate,
+  onAdd,
+  onPasteRows,
+  onRemove,
+  onRemoveMany,
+  onDuplicate,
+  onShift,
+  onSort
+}: ChequeTableProps) {
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ChequeStatus | 'all'>('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [shiftAmount, setShiftAmount] = useState('1');
+  const [shiftUnit, setShiftUnit] = useState<ShiftUnit>('month');
+  const today = useMemo(() => getTodayJalali(), []);
+
+  // Row numbers follow the case order even when the view is filtered or grouped
+  const rowNumbers = useMemo(
+    () => new Map(processedCheques.map((c, i) => [c.id, i + 1])),
+    [processedCheques]
+  );
+
+  const visible = useMemo(
+    () => filterCheques(processedCheques, { query, status: statusFilter }),
+    [processedCheques, query, statusFilter]
+  );
+
+  const groups = useMemo(
+    () => groupBy === 'none' ? null : groupCheques(visible, groupBy, baseDate, excludedStatuses, businessDays),
+    [visible, groupBy, baseDate, excludedStatuses, businessDays]
+  );
+
+  // Drop ids of rows that have since been deleted or undone away
+  const selectedIds = useMemo(
+    () => new Set([...selection].filter(id => rowNumbers.has(id))),
+    [selection, rowNumbers]
+  );
+  const allVisibleSelected = visible.length > 0 && visible.every(c => selectedIds.has(c.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelection(next);
+  };
+
+  const toggleAllVisible = () => {
+    setSelection(allVisibleSelected ? new Set() : new Set(visible.map(c => c.id)));
+  };
+
+  const applyShift = () => {
+    const amount = parseInt(shiftAmount, 10);
+    if (!Number.isInteger(amount) || amount === 0) return;
+    onShift(selectedIds, amount, shiftUnit);
+  };
+
+  const deleteSelected = () => {
+    if (window.confirm(`آیا از حذف ${selectedIds.size} چک انتخاب‌شده اطمینان دارید؟`)) {
+      onRemoveMany(selectedIds);
+      setSelection(new Set());
+    }
+  };
+
+  const tableRef = useRef<HTMLTableElement>(null);
+  const pendingFocus = useRef<CellColumn | null>(null);
+
+  // Cells are looked up in DOM order so navigation follows the filtered and grouped view
+  const cellsIn = (column: CellColumn): HTMLInputElement[] => {
+    if (!tableRef.current) return [];
+    return Array.from(tableRef.current.querySelectorAll<HTMLInputElement>(`input[data-cell="${column}"]`));
+  };
+
+  const focusCell = (input: HTMLInputElement | undefined) => {
+    input?.focus();
+    input?.select();
+  };
+
+  // A row added from the keyboard is focused once it has rendered
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const cells = cellsIn(pendingFocus.current);
+    focusCell(cells[cells.length - 1]);
+    pendingFocus.current = null;
+  }, [processedCheques.length]);
+
+  // Enter and the up/down arrows move between rows, left/right between the amount and date
+  // cells (once the caret is at the edge), and leaving the last row creates a new one
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const column = input.dataset.cell as CellColumn;
+    const row = cellsIn(column).indexOf(input);
+    const caretAt = (position: number) => input.selectionStart === position && input.selectionEnd === position;
+
+    const moveTo = (targetColumn: CellColumn, targetRow: number) => {
+      e.preventDefault();
+      const cells = cellsIn(targetColumn);
+      if (targetRow < 0) return;
+      if (targetRow < cells.length) {
+        focusCell(cells[targetRow]);
+      } else {
+        pendingFocus.current = targetColumn;
+        onAdd();
+      }
+    };
+
+    if (e.key === 'Enter' || e.key === 'ArrowDown') moveTo(column, row + 1);
+    else if (e.key === 'ArrowUp') moveTo(column, row - 1);
+    else if (e.key === 'ArrowLeft' && column === 'amount' && caretAt(0)) moveTo('date', row);
+    else if (e.key === 'ArrowRight' && column === 'date' && caretAt(input.value.length)) moveTo('amount', row);
+    else if (e.key === 'Tab' && !e.shiftKey && column === 'date') moveTo('amount', row + 1);
+    else if (e.key === 'Tab' && e.shiftKey && column === 'amount' && row > 0) moveTo('date', row - 1);
+  };
+
+  // A block of rows pasted anywhere in the table becomes new cheques; a single value is left to the input
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target instanceof HTMLInputElement && !target.dataset.cell) return;
+    const result = parsePastedRows(e.clipboardData.getData('text/plain'));
+    if (!result) return;
+    e.preventDefault();
+    onPasteRows(result);
+  };
+
+  const toggleExcluded = (status: ChequeStatus) => {
+    onExcludedChange(excludedStatuses.includes(status)
+      ? excludedStatuses.filter(s => s !== status)
+      : [...excludedStatuses, status]);
+  };
+
+  const columnCount = discount ? 8 : 7;
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50/50 border rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all print:border-none print:p-0 print:text-right print:bg-transparent font-medium text-slate-700";
+  const selectClass = "px-3 py-2 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+
+  const renderRow = (cheque: ProcessedCheque) => {
+    const status = cheque.status ?? 'pending';
+    const isExpanded = expandedId === cheque.id;
+    const sayadInvalid = !!cheque.sayadId && !isValidSayadId(cheque.sayadId);
+    const dueState = getDueState(cheque, today, upcomingDays);
+
+    return (
+      <React.Fragment key={cheque.id}>
+        <motion.tr
+          layout
+          initial={{ opacity: 0, scale: 0.95, backgroundColor: '#f8fafc' }}
+          animate={{ opacity: cheque.isExcluded ? 0.55 : 1, scale: 1, backgroundColor: cheque.isInvalid ? '#fef2f2' : cheque.isExcluded ? '#f8fafc' : '#ffffff' }}
+          exit={{ opacity: 0, scale: 0.95, backgroundColor: '#f8fafc' }}
+          transition={{ duration: 0.2 }}
+          className="group hover:bg-slate-50/80 transition-colors"
+        >
+          <td className="p-4 text-center text-slate-400 font-medium">
+            <label className="flex items-center justify-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(cheque.id)}
+                onChange={() => toggleSelected(cheque.id)}
+                className="w-4 h-4 accent-indigo-600 print:hidden"
+              />
+              {rowNumbers.get(cheque.id)}
+            </label>
+          </td>
+          <td className="p-4">
+            <AmountInput
+              value={cheque.amount}
+              unit={display.unit}
+              onChange={(amount) => onUpdate(cheque.id, { amount })}
+              onKeyDown={handleCellKeyDown}
+              data-cell="amount"
+              placeholder="مثلا 10,000,000 یا 50m"
+              className={`${inputClass} text-left border-slate-200/60`}
+              dir="ltr"
+            />
+            {cheque.counterparty && (
+              <p className="text-xs text-slate-400 mt-1 truncate">{cheque.counterparty}{cheque.bank ? ` · ${cheque.bank}` : ''}</p>
+            )}
+          </td>
+          <td className="p-4">
+            <input
+              type="text"
+              value={cheque.date}
+              onChange={(e) => onUpdate(cheque.id, { date: formatJalaliInput(toLatinDigits(e.target.value)) })}
+              onKeyDown={handleCellKeyDown}
+              data-cell="date"
+              placeholder="1403/05/12"
+              className={`${inputClass} text-left ${cheque.isInvalid ? 'border-red-300 bg-red-50/50 text-red-900 focus:border-red-500 focus:ring-red-500/10' : 'border-slate-200/60'}`}
+              dir="ltr"
+            />
+            {cheque.isDateValid && cheque.effectiveDate !== cheque.date && (
+              <p className="text-xs text-indigo-500 font-medium mt-1">وصول: <span dir="ltr">{cheque.effectiveDate}</span></p>
+            )}
+            {dueState === 'overdue' && <p className="text-xs text-rose-500 font-semibold mt-1 print:hidden">سررسید گذشته</p>}
+            {dueState === 'upcoming' && <p className="text-xs text-amber-600 font-semibold mt-1 print:hidden">سررسید نزدیک</p>}
+          </td>
+          <td className="p-4 text-center">
+            <button
+              onClick={() => onUpdate(cheque.id, { type: cheque.type === 'paid' ? 'received' : 'paid' })}
+              className={`px-3 py-1.5 rounded-xl text-sm font-semibold transition-all active:scale-95 print:bg-transparent print:p-0 ${cheque.type === 'paid' ? 'bg-rose-50 text-rose-600 hover:bg-rose-100' : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'}`}
+            >
+              {chequeTypeLabels[cheque.type]}
+            </button>
+          </td>
+          <td className="p-4 text-center">
+            <select
+              value={status}
+              onChange={(e) => onUpdate(cheque.id, { status: e.target.value as ChequeStatus })}
+              className={`px-2 py-1.5 rounded-xl text-sm font-semibold outline-none cursor-pointer appearance-none text-center print:bg-transparent print:p-0 ${statusColors[status]}`}
+            >
+              {STATUSES.map(s => <option key={s} value={s}>{chequeStatusLabels[s]}</option>)}
+            </select>
+          </td>
+          <td className="p-4 text-center font-bold text-slate-600" dir="ltr">
+            {localizeDigits(cheque.days, display.digits)}
+          </td>
+          {discount && (
+            <td className="p-4 font-medium text-slate-500" dir="ltr">
+              {cheque.id in discount.presentValues ? formatAmount(discount.presentValues[cheque.id], display) || '0' : '-'}
+            </td>
+          )}
+          <td className="p-4 print:hidden">
+            <div className="flex items-center justify-center gap-1">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : cheque.id)}
+                title="جزئیات چک"
+                className={`p-2.5 rounded-xl transition-all active:scale-90 ${isExpanded ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+              >
+                <ChevronDown className={`w-5 h-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+              <button
+                onClick={() => onRemove(cheque.id)}
+                title="حذف"
+                className="p-2.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all cursor-pointer active:scale-90"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          </td>
+        </motion.tr>
+        {isExpanded && (
+          <tr className="bg-slate-50/60 print:hidden">
+            <td colSpan={columnCount} className="p-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {detailFields.map(({ field, label }) => (
+                  <label key={field} className={`space-y-1.5 ${field === 'note' ? 'sm:col-span-2 lg:col-span-3' : ''}`}>
+                    <span className="text-xs font-medium text-slate-500">{label}</span>
+                    <input
+                      type="text"
+                      value={cheque[field] ?? ''}
+                      onChange={(e) => onUpdate(cheque.id, { [field]: e.target.value })}
+                      className={`${inputClass} text-sm border-slate-200/60`}
+                    />
+                  </label>
+                ))}
+                <label className="space-y-1.5">
+                  <span className="text-xs font-medium text-slate-500">شناسه صیادی (۱۶ رقم)</span>
+                  <input
+                    type="text"
+                    value={cheque.sayadId ?? ''}
+                    onChange={(e) => onUpdate(cheque.id, { sayadId: e.target.value.replace(/\D/g, '').slice(0, 16) })}
+                    className={`${inputClass} text-sm text-left ${sayadInvalid ? 'border-red-300 bg-red-50/50 text-red-900' : 'border-slate-200/60'}`}
+                    dir="ltr"
+                  />
+                  {sayadInvalid && <p className="text-xs text-red-500 font-medium">شناسه صیادی باید ۱۶ رقم باشد</p>}
+                </label>
+              </div>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 overflow-hidden print:shadow-none print:border-slate-200"
+    >
+      <div className="p-5 sm:p-6 border-b border-slate-100 bg-white space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600 print:hidden">
+            <DollarSign className="w-5 h-5" />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">لیست چک‌ها <span className="text-sm font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full mr-2">({processedCheques.length})</span></h2>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 print:hidden">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-slate-400 absolute right-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="جستجو در طرف حساب، بانک، سریال..."
+              className={`${selectClass} w-full pr-9`}
+            />
+          </div>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as ChequeStatus | 'all')} className={selectClass}>
+            <option value="all">همه وضعیت‌ها</option>
+            {STATUSES.map(s => <option key={s} value={s}>{chequeStatusLabels[s]}</option>)}
+          </select>
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)} className={selectClass}>
+            {(Object.keys(groupByLabels) as GroupBy[]).map(g => <option key={g} value={g}>{groupByLabels[g]}</option>)}
+          </select>
+          <select
+            value=""
+            onChange={(e) => {
+              const [key, direction] = e.target.value.split('-') as [SortKey, SortDirection];
+              onSort(key, direction);
+            }}
+            className={selectClass}
+          >
+            <option value="" disabled>مرتب‌سازی...</option>
+            {sortOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+
+        {selectedIds.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 p-3 rounded-2xl bg-indigo-50/60 border border-indigo-100 text-sm print:hidden">
+            <span className="font-semibold text-indigo-700 ml-2">{selectedIds.size} چک انتخاب شده</span>
+            <button onClick={() => onDuplicate(selectedIds)} className="flex items-center gap-1.5 px-3 py-2 bg-white text-slate-700 rounded-xl hover:bg-slate-50 active:scale-95 transition-all font-semibold">
+              <Copy className="w-4 h-4" /> کپی
+            </button>
+            <div className="flex items-center gap-1.5">
+              <input
+                type="text"
+                value={shiftAmount}
+                onChange={(e) => setShiftAmount(e.target.value.replace(/[^\d-]/g, ''))}
+                className={`${selectClass} w-16 text-center bg-white`}
+                dir="ltr"
+              />
+              <select value={shiftUnit} onChange={(e) => setShiftUnit(e.target.value as ShiftUnit)} className={`${selectClass} bg-white`}>
+                <option value="day">روز</option>
+                <option value="month">ماه</option>
+              </select>
+              <button onClick={applyShift} className="flex items-center gap-1.5 px-3 py-2 bg-white text-slate-700 rounded-xl hover:bg-slate-50 active:scale-95 transition-all font-semibold">
+                <CalendarClock className="w-4 h-4" /> جابجایی تاریخ
+              </button>
+            </div>
+            <button onClick={deleteSelected} className="flex items-center gap-1.5 px-3 py-2 bg-white text-rose-600 rounded-xl hover:bg-rose-50 active:scale-95 transition-all font-semibold">
+              <Trash2 className="w-4 h-4" /> حذف
+            </button>
+            <button onClick={() => setSelection(new Set())} title="لغو انتخاب" className="p-2 text-slate-400 hover:text-slate-600 rounded-xl transition-all mr-auto">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-500 print:hidden">
+          <span className="font-medium">حذف از محاسبه راس:</span>
+          {STATUSES.filter(s => s !== 'pending').map(s => (
+            <label key={s} className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={excludedStatuses.includes(s)}
+                onChange={() => toggleExcluded(s)}
+                className="w-4 h-4 accent-indigo-600"
+              />
+              {chequeStatusLabels[s]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table ref={tableRef} onPaste={handlePaste} data-cheque-table className="w-full text-right border-collapse">
+          <thead>
+            <tr className="bg-slate-50/50 border-b border-slate-100 text-slate-500 text-sm">
+              <th className="p-4 font-semibold w-20 text-center">
+                <label className="flex items-center justify-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={toggleAllVisible}
+                    title="انتخاب همه"
+                    className="w-4 h-4 accent-indigo-600 print:hidden"
+                  />
+                  ردیف
+                </label>
+              </th>
+              <th className="p-4 font-semibold">مبلغ ({amountUnitLabels[display.unit]})</th>
+              <th className="p-4 font-semibold">تاریخ سررسید</th>
+              <th className="p-4 font-semibold text-center">نوع</th>
+              <th className="p-4 font-semibold text-center">وضعیت</th>
+              <th className="p-4 font-semibold text-center">روزها</th>
+              {discount && <th className="p-4 font-semibold">ارزش فعلی</th>}
+              <th className="p-4 font-semibold text-center print:hidden w-28">عملیات</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100/80">
+            <AnimatePresence mode="popLayout">
+              {groups
+                ? groups.map(group => (
+                  <React.Fragment key={group.key}>
+                    <tr className="bg-indigo-50/40">
+                      <td colSpan={columnCount} className="px-4 py-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                          <span className="font-bold text-slate-800">
+                            {group.label} <span className="font-medium text-slate-400">({group.cheques.length})</span>
+                          </span>
+                          {group.summary ? (
+                            <span className="text-slate-600">
+                              جمع: <span className="font-bold">{formatAmount(group.summary.totalAmount, display)}</span> {amountUnitLabels[display.unit]} · راس: <span className="font-bold text-indigo-700">{localizeDigits(group.summary.adjustedRasDate, display.digits)}</span>
+                            </span>
+                          ) : (
+                            <span className="text-slate-400">چک معتبری برای محاسبه نیست</span>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {group.cheques.map(renderRow)}
+                  </React.Fragment>
+                ))
+                : visible.map(renderRow)}
+            </AnimatePresence>
+          </tbody>
+        </table>
+        {visible.length === 0 && processedCheques.length > 0 && (
+          <p className="text-center text-slate-400 text-sm py-10">چکی با این فیلتر یافت نشد</p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Percent } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { CaseSettings, DisplaySettings, InterestMethod } from '../types';
+import { interestMethodLabels, type DiscountSummary } from '../lib/discount';
+import type { RasSummary } from '../lib/ras';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+
+type DiscountPanelProps = {
+  settings: CaseSettings;
+  onChange: (patch: Partial<CaseSettings>) => void;
+  summary: DiscountSummary | null;
+  results: RasSummary | null;
+  display: DisplaySettings;
+};
+
+export default function DiscountPanel({ settings, onChange, summary, results, display }: DiscountPanelProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:shadow-none print:border-slate-200 print:p-6 ${settings.discountEnabled ? '' : 'print:hidden'}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600 print:hidden">
+            <Percent className="w-5 h-5" />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">ارزش فعلی و تنزیل</h2>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 cursor-pointer print:hidden">
+          <input
+            type="checkbox"
+            checked={settings.discountEnabled}
+            onChange={(e) => onChange({ discountEnabled: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          فعال‌سازی محاسبه با نرخ سود
+        </label>
+      </div>
+
+      {settings.discountEnabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-6 print:hidden">
+            <label className="space-y-2">
+              <span className="text-sm font-medium text-slate-500">نرخ سالانه (درصد)</span>
+              <input
+                type="text"
+                value={settings.annualRate}
+                onChange={(e) => onChange({ annualRate: e.target.value })}
+                placeholder="مثلا 23"
+                className="w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left font-medium text-slate-700"
+                dir="ltr"
+              />
+            </label>
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-500 block">روش محاسبه سود</span>
+              <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold w-fit">
+                {(['compound', 'simple'] as InterestMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => onChange({ interestMethod: method })}
+                    className={`px-4 py-1.5 rounded-xl transition-all ${settings.interestMethod === method ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {interestMethodLabels[method]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {summary ? (
+            <>
+              {summary.skippedIds.length > 0 && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-2xl p-4 mb-5">
+                  {localizeDigits(String(summary.skippedIds.length), display.digits)} چک ارزش فعلی قابل محاسبه ندارد و در جمع‌ها حساب نشده است؛ سررسید آن بیش از حد از تاریخ مبدا دور است.
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+                <div className="rounded-2xl p-5 border bg-slate-50/50 border-slate-100">
+                  <p className="text-sm mb-2 font-medium text-slate-500">ارزش فعلی کل در تاریخ مبدا</p>
+                  <p className="text-xl font-extrabold tracking-tight text-slate-800">{formatAmount(summary.totalPresentValue, display) || '0'} <span className="text-sm font-normal opacity-70">{amountUnitLabels[display.unit]}</span></p>
+                </div>
+                <div className="rounded-2xl p-5 border bg-rose-50/50 border-rose-100">
+                  <p className="text-sm mb-2 font-medium text-rose-600">مجموع تنزیل</p>
+                  <p className="text-xl font-extrabold tracking-tight text-slate-800">{formatAmount(summary.totalDiscount, display) || '0'} <span className="text-sm font-normal opacity-70">{amountUnitLabels[display.unit]}</span></p>
+                </div>
+                <div className="rounded-2xl p-5 border bg-indigo-50/50 border-indigo-100">
+                  <p className="text-sm mb-2 font-medium text-indigo-600">تاریخ معادل پرداخت یکجا</p>
+                  <p className="text-xl font-extrabold tracking-tight text-indigo-700">{localizeDigits(summary.equivalentDate, display.digits)}</p>
+                  {results && (
+                    <p className="text-xs text-slate-500 mt-1.5">راس ساده: {localizeDigits(results.rasDate, display.digits)}</p>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">برای محاسبه، نرخ سالانه معتبر و حداقل یک چک معتبر وارد کنید.</p>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
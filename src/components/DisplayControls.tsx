@@ -0,0 +1,31 @@
+import React from 'react';
+import type { AmountUnit, DigitStyle, DisplaySettings } from '../types';
+import { amountUnitLabels, digitStyleLabels } from '../lib/money';
+
+type DisplayControlsProps = {
+  display: DisplaySettings;
+  onChange: (display: DisplaySettings) => void;
+};
+
+export default function DisplayControls({ display, onChange }: DisplayControlsProps) {
+  const toggleClass = (active: boolean) => `px-3 py-1 rounded-xl transition-all ${active ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 print:hidden">
+      <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold" title="واحد مبالغ">
+        {(Object.keys(amountUnitLabels) as AmountUnit[]).map(unit => (
+          <button key={unit} onClick={() => onChange({ ...display, unit })} className={toggleClass(display.unit === unit)}>
+            {amountUnitLabels[unit]}
+          </button>
+        ))}
+      </div>
+      <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold" title="نمایش ارقام">
+        {(Object.keys(digitStyleLabels) as DigitStyle[]).map(digits => (
+          <button key={digits} onClick={() => onChange({ ...display, digits })} className={toggleClass(display.digits === digits)}>
+            {digitStyleLabels[digits]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
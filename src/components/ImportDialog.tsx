@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import type * as XLSX from 'xlsx';
+import type { Cheque, DisplaySettings } from '../types';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+import { buildPreview, getSheetData, guessColumnMapping, previewToCheques, type ColumnMapping, type ImportField } from '../lib/importer';
+
+type ImportDialogProps = {
+  workbook: XLSX.WorkBook;
+  fileName: string;
+  display: DisplaySettings;
+  onClose: () => void;
+  onImport: (cheques: Cheque[]) => void;
+};
+
+const fieldLabels: Record<ImportField, string> = {
+  amount: 'ستون مبلغ',
+  date: 'ستون تاریخ',
+  type: 'ستون نوع (اختیاری)',
+  status: 'ستون وضعیت (اختیاری)',
+  counterparty: 'ستون طرف حساب (اختیاری)',
+  bank: 'ستون بانک (اختیاری)',
+  branch: 'ستون شعبه (اختیاری)',
+  serial: 'ستون سریال (اختیاری)',
+  sayadId: 'ستون شناسه صیادی (اختیاری)',
+  note: 'ستون توضیحات (اختیاری)',
+};
+
+export default function ImportDialog({ workbook, fileName, display, onClose, onImport }: ImportDialogProps) {
+  const [sheetName, setSheetName] = useState(workbook.SheetNames[0] || '');
+  const sheetData = useMemo(() => getSheetData(workbook, sheetName), [workbook, sheetName]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(sheetData.headers));
+
+  const preview = useMemo(() => buildPreview(sheetData, mapping), [sheetData, mapping]);
+  const validCount = preview.filter(row => row.errors.length === 0).length;
+
+  const selectSheet = (name: string) => {
+    setSheetName(name);
+    setMapping(guessColumnMapping(getSheetData(workbook, name).headers));
+  };
+
+  const selectClass = "w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 print:hidden"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-50 rounded-xl text-emerald-600">
+              <FileSpreadsheet className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">ورود اطلاعات از فایل</h2>
+              <p className="text-xs text-slate-400" dir="ltr">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 border-b border-slate-100">
+          {workbook.SheetNames.length > 1 && (
+            <label className="space-y-2 sm:col-span-2">
+              <span className="text-sm font-medium text-slate-500">برگه</span>
+              <select value={sheetName} onChange={(e) => selectSheet(e.target.value)} className={selectClass}>
+                {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+          )}
+          {(Object.keys(fieldLabels) as ImportField[]).map(field => (
+            <label key={field} className="space-y-2">
+              <span className="text-sm font-medium text-slate-500">{fieldLabels[field]}</span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                className={selectClass}
+              >
+                <option value="">—</option>
+                {sheetData.headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+              </select>
+            </label>
+          ))}
+          {/* Spreadsheets, bank statements and this app's own exports all carry rial amounts */}
+          <p className="text-xs text-slate-400 sm:col-span-2">
+            مبالغ فایل به ریال خوانده می‌شوند و در پیش‌نمایش به {amountUnitLabels[display.unit]} نمایش داده می‌شوند.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-right border-collapse text-sm">
+            <thead className="sticky top-0 bg-slate-50">
+              <tr className="border-b border-slate-100 text-slate-500">
+                <th className="p-3 font-semibold w-16 text-center">ردیف</th>
+                <th className="p-3 font-semibold">مبلغ ({amountUnitLabels[display.unit]})</th>
+                <th className="p-3 font-semibold">تاریخ</th>
+                <th className="p-3 font-semibold">وضعیت</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100/80">
+              {preview.map(row => (
+                <tr key={row.rowNumber} className={row.errors.length ? 'bg-red-50/60' : ''}>
+                  <td className="p-3 text-center text-slate-400">{localizeDigits(String(row.rowNumber), display.digits)}</td>
+                  <td className="p-3 font-medium text-slate-700" dir="ltr">{row.amount ? formatAmount(row.amount, display) : '-'}</td>
+                  <td className="p-3 font-medium text-slate-700" dir="ltr">{row.date ? localizeDigits(row.date, display.digits) : '-'}</td>
+                  <td className="p-3">
+                    {row.errors.length ? (
+                      <span className="flex items-start gap-1.5 text-red-600">
+                        <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" /> {row.errors.join('، ')}
+                      </span>
+                    ) : (
+                      <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.length === 0 && (
+            <p className="text-center text-slate-400 text-sm py-10">ردیفی در این برگه یافت نشد</p>
+          )}
+        </div>
+
+        <div className="p-5 sm:p-6 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-slate-500">
+            {validCount} ردیف معتبر از {preview.length} ردیف
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2.5 text-slate-600 bg-slate-100 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+              انصراف
+            </button>
+            <button
+              onClick={() => onImport(previewToCheques(preview))}
+              disabled={validCount === 0}
+              className="px-4 py-2.5 bg-emerald-600 text-white rounded-2xl hover:bg-emerald-700 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-emerald-200 disabled:opacity-50"
+            >
+              افزودن {validCount} چک
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
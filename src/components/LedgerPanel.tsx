@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { BookOpen, ChevronDown, FileSpreadsheet } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { DisplaySettings } from '../types';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+import { chequeStatusLabels, chequeTypeLabels } from '../lib/cases';
+import { AGING_BUCKETS, agingBucketLabels, type LedgerReport } from '../lib/ledger';
+
+type LedgerPanelProps = {
+  report: LedgerReport;
+  display: DisplaySettings;
+  onExport: () => void;
+};
+
+// Positive means the counterparty owes us, negative means we owe them
+const signedClass = (amount: bigint) => amount > 0n ? 'text-emerald-600' : amount < 0n ? 'text-rose-600' : 'text-slate-400';
+
+export default function LedgerPanel({ report, display, onExport }: LedgerPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (report.ledgers.length === 0) return null;
+
+  const amount = (value: bigint) => formatAmount(value, display) || localizeDigits('0', display.digits);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+            <BookOpen className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">دفتر طرف حساب‌ها</h2>
+            <p className="text-xs text-slate-400">مانده و گزارش سنی نسبت به تاریخ مبدا · {amountUnitLabels[display.unit]}</p>
+          </div>
+        </div>
+        <button onClick={onExport} className="flex items-center gap-2 px-4 py-2.5 bg-emerald-50 text-emerald-700 rounded-2xl hover:bg-emerald-100 active:scale-95 transition-all text-sm font-semibold">
+          <FileSpreadsheet className="w-4 h-4" />
+          خروجی اکسل
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-right border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-slate-100 text-slate-500">
+              <th className="p-3 font-semibold">طرف حساب</th>
+              {AGING_BUCKETS.map(bucket => (
+                <th key={bucket} className="p-3 font-semibold whitespace-nowrap">{agingBucketLabels[bucket]}</th>
+              ))}
+              <th className="p-3 font-semibold">مانده</th>
+              <th className="p-3 font-semibold">راس</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100/80">
+            {report.ledgers.map(ledger => {
+              const isOpen = expanded === ledger.label;
+              return (
+                <React.Fragment key={ledger.label}>
+                  <tr onClick={() => setExpanded(isOpen ? null : ledger.label)} className="cursor-pointer hover:bg-slate-50/80 transition-colors">
+                    <td className="p-3 font-semibold text-slate-700">
+                      <span className="flex items-center gap-2">
+                        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? '' : 'rotate-90'}`} />
+                        {ledger.label}
+                      </span>
+                    </td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket} className={`p-3 font-medium ${signedClass(ledger.aging[bucket])}`} dir="ltr">{amount(ledger.aging[bucket])}</td>
+                    ))}
+                    <td className={`p-3 font-bold ${signedClass(ledger.balance)}`} dir="ltr">{amount(ledger.balance)}</td>
+                    <td className="p-3 font-medium text-slate-700" dir="ltr">{ledger.rasDate ? localizeDigits(ledger.rasDate, display.digits) : '-'}</td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={AGING_BUCKETS.length + 3} className="p-0 bg-slate-50/60">
+                        <table className="w-full text-right border-collapse text-xs">
+                          <thead>
+                            <tr className="text-slate-400">
+                              <th className="px-6 py-2 font-semibold">تاریخ سررسید</th>
+                              <th className="px-3 py-2 font-semibold">نوع</th>
+                              <th className="px-3 py-2 font-semibold">وضعیت</th>
+                              <th className="px-3 py-2 font-semibold">مبلغ</th>
+                              <th className="px-3 py-2 font-semibold">مانده</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100">
+                            {ledger.entries.map(entry => (
+                              <tr key={entry.cheque.id}>
+                                <td className="px-6 py-2 text-slate-600" dir="ltr">{localizeDigits(entry.cheque.date, display.digits)}</td>
+                                <td className="px-3 py-2 text-slate-600">{chequeTypeLabels[entry.cheque.type]}</td>
+                                <td className="px-3 py-2 text-slate-600">{chequeStatusLabels[entry.cheque.status ?? 'pending']}</td>
+                                <td className={`px-3 py-2 font-medium ${signedClass(entry.signedAmount)}`} dir="ltr">{amount(entry.signedAmount)}</td>
+                                <td className={`px-3 py-2 font-semibold ${signedClass(entry.balance)}`} dir="ltr">{amount(entry.balance)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-slate-200 font-bold">
+              <td className="p-3 text-slate-700">جمع</td>
+              {AGING_BUCKETS.map(bucket => (
+                <td key={bucket} className={`p-3 ${signedClass(report.aging[bucket])}`} dir="ltr">{amount(report.aging[bucket])}</td>
+              ))}
+              <td className={`p-3 ${signedClass(report.balance)}`} dir="ltr">{amount(report.balance)}</td>
+              <td className="p-3" />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Camera, X, Check, Ban } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { AmountUnit, Cheque } from '../types';
+import { formatJalaliInput, isValidJalali } from '../lib/jalali';
+import { amountUnitLabels } from '../lib/money';
+import { OcrRequestError, type OcrFileError, type ReviewRow } from '../lib/ocr';
+import AmountInput from './AmountInput';
+
+type OcrReviewDialogProps = {
+  rows: ReviewRow[];
+  errors: OcrFileError[];
+  unit: AmountUnit;
+  onClose: () => void;
+  onImport: (cheques: Cheque[]) => void;
+};
+
+const isRowValid = (row: ReviewRow) => /^\d+$/.test(row.amount) && !/^0+$/.test(row.amount) && isValidJalali(row.date);
+
+// Colour a field by the recogniser's confidence; fields the user edits count as certain
+function ConfidenceBadge({ value }: { value: number }) {
+  const percent = Math.round(value * 100);
+  const color = value >= 0.85 ? 'bg-emerald-50 text-emerald-600' : value >= 0.6 ? 'bg-amber-50 text-amber-600' : 'bg-red-50 text-red-600';
+  return <span className={`shrink-0 px-1.5 py-0.5 rounded-lg text-xs font-semibold ${color}`} dir="ltr">{percent}%</span>;
+}
+
+export default function OcrReviewDialog({ rows: initialRows, errors, unit, onClose, onImport }: OcrReviewDialogProps) {
+  const [rows, setRows] = useState(initialRows);
+
+  const updateRow = (id: string, patch: Partial<ReviewRow>) => {
+    setRows(rows.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const accepted = rows.filter(r => r.status === 'accepted' && isRowValid(r));
+
+  const confirm = () => {
+    onImport(accepted.map(r => ({ id: r.id, amount: r.amount, date: r.date, type: 'received' })));
+  };
+
+  const inputClass = "w-full min-w-0 px-3 py-2 bg-slate-50/50 border rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 print:hidden"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-amber-50 rounded-xl text-amber-600">
+              <Camera className="w-5 h-5" />
+            </div>
+            <h2 className="text-lg font-bold text-slate-800">بررسی چک‌های استخراج‌شده</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mx-5 sm:mx-6 mt-4 p-3 rounded-2xl bg-red-50 text-red-600 text-sm">
+            <p className="font-semibold mb-1">خطا در پردازش برخی فایل‌ها:</p>
+            <ul className="space-y-0.5">
+              {errors.map((e, i) => (
+                <li key={i}>
+                  <span dir="ltr">{e.fileName}</span>
+                  {e.error instanceof OcrRequestError && <span>: {e.error.message}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-right border-collapse text-sm">
+            <thead className="sticky top-0 bg-slate-50">
+              <tr className="border-b border-slate-100 text-slate-500">
+                <th className="p-3 font-semibold">فایل</th>
+                <th className="p-3 font-semibold">مبلغ ({amountUnitLabels[unit]})</th>
+                <th className="p-3 font-semibold">تاریخ</th>
+                <th className="p-3 font-semibold text-center w-28">وضعیت</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100/80">
+              {rows.map(row => {
+                const valid = isRowValid(row);
+                const isAccepted = row.status === 'accepted' && valid;
+                return (
+                  <tr key={row.id} className={isAccepted ? '' : 'bg-slate-50/80 text-slate-400'}>
+                    <td className="p-3 max-w-[8rem] truncate text-slate-500" dir="ltr" title={row.fileName}>{row.fileName}</td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <AmountInput
+                          value={row.amount}
+                          unit={unit}
+                          onChange={(amount) => updateRow(row.id, { amount, amountConfidence: 1 })}
+                          className={`${inputClass} ${/^\d+$/.test(row.amount) ? 'border-slate-200/60' : 'border-red-300 bg-red-50/50'}`}
+                          dir="ltr"
+                        />
+                        <ConfidenceBadge value={row.amountConfidence} />
+                      </div>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={row.date}
+                          onChange={(e) => updateRow(row.id, { date: formatJalaliInput(e.target.value), dateConfidence: 1 })}
+                          className={`${inputClass} ${isValidJalali(row.date) ? 'border-slate-200/60' : 'border-red-300 bg-red-50/50'}`}
+                          dir="ltr"
+                        />
+                        <ConfidenceBadge value={row.dateConfidence} />
+                      </div>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center justify-center gap-1">
+                        <button
+                          onClick={() => updateRow(row.id, { status: 'accepted' })}
+                          disabled={!valid}
+                          title="تایید"
+                          className={`p-2 rounded-xl transition-all disabled:opacity-30 ${isAccepted ? 'bg-emerald-50 text-emerald-600' : 'text-slate-400 hover:text-emerald-600'}`}
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => updateRow(row.id, { status: 'rejected' })}
+                          title="رد"
+                          className={`p-2 rounded-xl transition-all ${row.status === 'rejected' ? 'bg-rose-50 text-rose-600' : 'text-slate-400 hover:text-rose-600'}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <p className="text-center text-slate-400 text-sm py-10">اطلاعاتی در تصاویر یافت نشد</p>
+          )}
+        </div>
+
+        <div className="p-5 sm:p-6 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-slate-500">
+            {accepted.length} چک تایید شده از {rows.length} چک
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2.5 text-slate-600 bg-slate-100 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+              انصراف
+            </button>
+            <button
+              onClick={confirm}
+              disabled={accepted.length === 0}
+              className="px-4 py-2.5 bg-amber-500 text-white rounded-2xl hover:bg-amber-600 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-amber-200 disabled:opacity-50"
+            >
+              افزودن {accepted.length} چک
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
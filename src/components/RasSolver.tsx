@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Target, Plus } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Cheque, ChequeStatus, DisplaySettings } from '../types';
+import { formatJalaliInput } from '../lib/jalali';
+import { parseNumber } from '../lib/ras';
+import { amountUnitLabels, formatAmount, localizeDigits } from '../lib/money';
+import AmountInput from './AmountInput';
+import type { BusinessDayRule } from '../lib/holidays';
+import { solveAmountForTarget, solveDateForTarget, type SolverFailure } from '../lib/solver';
+
+type SolveMode = 'amount' | 'date';
+
+type RasSolverProps = {
+  baseDate: string;
+  cheques: Cheque[];
+  excludedStatuses: ChequeStatus[];
+  businessDays: BusinessDayRule | null;
+  display: DisplaySettings;
+  onAddCheque: (cheque: Pick<Cheque, 'amount' | 'date'>) => void;
+};
+
+const failureMessages: Record<SolverFailure, string> = {
+  'invalid-base': 'تاریخ مبدا نامعتبر است',
+  'invalid-target': 'تاریخ راس هدف نامعتبر است',
+  'invalid-date': 'تاریخ چک جدید نامعتبر است',
+  'invalid-amount': 'مبلغ چک جدید باید بیشتر از صفر باشد',
+  'before-base': 'تاریخ چک جدید پیش از تاریخ مبدا می‌افتد؛ این راس قابل دستیابی نیست',
+  'unreachable': 'با یک چک در این شرایط نمی‌توان به راس هدف رسید',
+};
+
+export default function RasSolver({ baseDate, cheques, excludedStatuses, businessDays, display, onAddCheque }: RasSolverProps) {
+  const [mode, setMode] = useState<SolveMode>('amount');
+  const [targetDate, setTargetDate] = useState('');
+  const [date, setDate] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const solution = useMemo(() => {
+    if (targetDate.length < 8) return null;
+    if (mode === 'amount') {
+      if (date.length < 8) return null;
+      return solveAmountForTarget({ baseDate, cheques, targetDate, date, excludedStatuses, businessDays });
+    }
+    if (!amount) return null;
+    return solveDateForTarget({ baseDate, cheques, targetDate, amount: parseNumber(amount), excludedStatuses, businessDays });
+  }, [mode, baseDate, cheques, excludedStatuses, businessDays, targetDate, date, amount]);
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-left font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-100 p-6 sm:p-8 print:hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+            <Target className="w-5 h-5" />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">رسیدن به راس هدف</h2>
+        </div>
+        <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold">
+          <button
+            onClick={() => setMode('amount')}
+            className={`px-3 py-1.5 rounded-xl transition-all ${mode === 'amount' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            محاسبه مبلغ
+          </button>
+          <button
+            onClick={() => setMode('date')}
+            className={`px-3 py-1.5 rounded-xl transition-all ${mode === 'date' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            محاسبه تاریخ
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <label className="space-y-2">
+          <span className="text-sm font-medium text-slate-500">تاریخ راس هدف</span>
+          <input
+            type="text"
+            value={targetDate}
+            onChange={(e) => setTargetDate(formatJalaliInput(e.target.value))}
+            placeholder="1403/06/15"
+            className={inputClass}
+            dir="ltr"
+          />
+        </label>
+        {mode === 'amount' ? (
+          <label className="space-y-2">
+            <span className="text-sm font-medium text-slate-500">تاریخ سررسید چک جدید</span>
+            <input
+              type="text"
+              value={date}
+              onChange={(e) => setDate(formatJalaliInput(e.target.value))}
+              placeholder="1403/09/01"
+              className={inputClass}
+              dir="ltr"
+            />
+          </label>
+        ) : (
+          <label className="space-y-2">
+            <span className="text-sm font-medium text-slate-500">مبلغ چک جدید ({amountUnitLabels[display.unit]})</span>
+            <AmountInput
+              value={amount}
+              unit={display.unit}
+              onChange={setAmount}
+              placeholder="مثلا 10,000,000"
+              className={inputClass}
+              dir="ltr"
+            />
+          </label>
+        )}
+      </div>
+
+      {solution && (
+        <div className={`mt-6 rounded-2xl p-5 border ${solution.ok ? 'bg-indigo-50/50 border-indigo-100' : 'bg-rose-50/50 border-rose-100'}`}>
+          {solution.ok ? (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="space-y-1.5 text-slate-700">
+                <p className="text-sm">
+                  چک جدید به مبلغ <span className="font-bold">{formatAmount(solution.amount, display)}</span> {amountUnitLabels[display.unit]} با سررسید <span className="font-bold">{localizeDigits(solution.date, display.digits)}</span>
+                </p>
+                <p className="text-sm">راس حاصل: <span className="font-bold text-indigo-700">{localizeDigits(solution.results.rasDate, display.digits)}</span></p>
+              </div>
+              <button
+                onClick={() => onAddCheque({ amount: solution.amount.toString(), date: solution.date })}
+                className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-indigo-200"
+              >
+                <Plus className="w-4 h-4" /> افزودن به لیست
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm font-medium text-rose-600">{failureMessages[solution.reason]}</p>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
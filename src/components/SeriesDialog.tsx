@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { ListOrdered, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Cheque, ChequeType, DisplaySettings } from '../types';
+import { formatJalaliInput } from '../lib/jalali';
+import { parseNumber } from '../lib/ras';
+import { amountInWords, amountUnitLabels, formatAmount, formatInUnit, localizeDigits } from '../lib/money';
+import { chequeTypeLabels } from '../lib/cases';
+import type { ShiftUnit } from '../lib/bulk';
+import AmountInput from './AmountInput';
+import { MAX_SERIES_COUNT, generateSeries, type AmountMode, type RemainderPlacement, type SeriesFailure } from '../lib/series';
+
+type SeriesDialogProps = {
+  display: DisplaySettings;
+  onClose: () => void;
+  onImport: (cheques: Cheque[]) => void;
+};
+
+const amountModeLabels: Record<AmountMode, string> = {
+  'total': 'مبلغ کل',
+  'per-cheque': 'مبلغ هر چک',
+};
+
+const remainderLabels: Record<RemainderPlacement, string> = {
+  first: 'به چک اول',
+  last: 'به چک آخر',
+  spread: 'پخش بین چک‌های اول',
+};
+
+// Rounding steps in rial; labelled in the display unit
+const ROUNDING_STEPS = ['1000', '100000', '1000000', '10000000'];
+
+const failureMessages: Record<SeriesFailure, string> = {
+  'invalid-amount': 'مبلغ باید بیشتر از صفر باشد',
+  'invalid-date': 'تاریخ اولین سررسید نامعتبر است',
+  'invalid-count': `تعداد چک باید بین ۱ و ${MAX_SERIES_COUNT.toLocaleString('fa-IR')} باشد`,
+  'invalid-interval': 'فاصله سررسیدها باید حداقل ۱ باشد',
+  'negative-amount': 'با این افزایش پلکانی، مبلغ برخی چک‌ها صفر یا منفی می‌شود',
+};
+
+export default function SeriesDialog({ display, onClose, onImport }: SeriesDialogProps) {
+  const [amountMode, setAmountMode] = useState<AmountMode>('total');
+  const [amount, setAmount] = useState('');
+  const [step, setStep] = useState('');
+  const [roundTo, setRoundTo] = useState('1');
+  const [remainder, setRemainder] = useState<RemainderPlacement>('last');
+  const [firstDate, setFirstDate] = useState('');
+  const [intervalLength, setIntervalLength] = useState('1');
+  const [intervalUnit, setIntervalUnit] = useState<ShiftUnit>('month');
+  const [count, setCount] = useState('12');
+  const [type, setType] = useState<ChequeType>('received');
+
+  const series = useMemo(() => {
+    if (!amount || firstDate.length < 8) return null;
+    return generateSeries({
+      amountMode,
+      amount: parseNumber(amount),
+      // The step is typed in the display unit
+      step: parseNumber(step) * (display.unit === 'toman' ? 10n : 1n),
+      roundTo: BigInt(roundTo),
+      remainder,
+      firstDate,
+      interval: Number(intervalLength),
+      intervalUnit,
+      count: Number(count),
+      type
+    });
+  }, [amountMode, amount, step, roundTo, remainder, firstDate, intervalLength, intervalUnit, count, type, display.unit]);
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+  const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-xl transition-all ${active ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 print:hidden"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+              <ListOrdered className="w-5 h-5" />
+            </div>
+            <h2 className="text-lg font-bold text-slate-800">ساخت سری اقساط</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 border-b border-slate-100 overflow-y-auto">
+          <div className="space-y-2">
+            <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold w-fit">
+              {(Object.keys(amountModeLabels) as AmountMode[]).map(mode => (
+                <button key={mode} onClick={() => setAmountMode(mode)} className={toggleClass(amountMode === mode)}>
+                  {amountModeLabels[mode]}
+                </button>
+              ))}
+            </div>
+            <AmountInput
+              value={amount}
+              unit={display.unit}
+              onChange={setAmount}
+              placeholder={`مبلغ به ${amountUnitLabels[display.unit]}`}
+              className={`${inputClass} text-left`}
+              dir="ltr"
+            />
+          </div>
+          <label className="space-y-2">
+            <span className="text-sm font-medium text-slate-500">افزایش هر قسط نسبت به قبلی (اختیاری)</span>
+            <input
+              type="text"
+              value={step.startsWith('-') ? `-${formatInUnit(step.slice(1), 'rial')}` : formatInUnit(step, 'rial')}
+              onChange={(e) => setStep(e.target.value.replace(/[^\d-]/g, '').replace(/(?!^)-/g, ''))}
+              placeholder="0"
+              className={`${inputClass} text-left`}
+              dir="ltr"
+            />
+          </label>
+          <label className="space-y-2">
+            <span className="text-sm font-medium text-slate-500">تاریخ اولین سررسید</span>
+            <input
+              type="text"
+              value={firstDate}
+              onChange={(e) => setFirstDate(formatJalaliInput(e.target.value))}
+              placeholder="1403/07/01"
+              className={`${inputClass} text-left`}
+              dir="ltr"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-2">
+              <span className="text-sm font-medium text-slate-500">تعداد چک</span>
+              <input
+                type="text"
+                value={count}
+                onChange={(e) => setCount(e.target.value.replace(/\D/g, ''))}
+                className={`${inputClass} text-left`}
+                dir="ltr"
+              />
+            </label>
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-500 block">هر</span>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={intervalLength}
+                  onChange={(e) => setIntervalLength(e.target.value.replace(/\D/g, ''))}
+                  className={`${inputClass} text-left w-16`}
+                  dir="ltr"
+                />
+                <select value={intervalUnit} onChange={(e) => setIntervalUnit(e.target.value as ShiftUnit)} className={inputClass}>
+                  <option value="month">ماه</option>
+                  <option value="day">روز</option>
+                </select>
+              </div>
+            </div>
+          </div>
+          {amountMode === 'total' && (
+            <>
+              <label className="space-y-2">
+                <span className="text-sm font-medium text-slate-500">گرد کردن مبلغ هر چک</span>
+                <select value={roundTo} onChange={(e) => setRoundTo(e.target.value)} className={inputClass}>
+                  <option value="1">بدون گرد کردن</option>
+                  {ROUNDING_STEPS.map(value => <option key={value} value={value}>{amountInWords(BigInt(value), display.unit)}</option>)}
+                </select>
+              </label>
+              <label className="space-y-2">
+                <span className="text-sm font-medium text-slate-500">باقیمانده تقسیم</span>
+                <select value={remainder} onChange={(e) => setRemainder(e.target.value as RemainderPlacement)} className={inputClass}>
+                  {(Object.keys(remainderLabels) as RemainderPlacement[]).map(r => <option key={r} value={r}>{remainderLabels[r]}</option>)}
+                </select>
+              </label>
+            </>
+          )}
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-slate-500 block">نوع چک‌ها</span>
+            <div className="flex bg-slate-100 rounded-2xl p-1 text-sm font-semibold w-fit">
+              {(['received', 'paid'] as ChequeType[]).map(t => (
+                <button key={t} onClick={() => setType(t)} className={toggleClass(type === t)}>
+                  {chequeTypeLabels[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto min-h-[8rem]">
+          {series?.ok ? (
+            <table className="w-full text-right border-collapse text-sm">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr className="border-b border-slate-100 text-slate-500">
+                  <th className="p-3 font-semibold w-16 text-center">قسط</th>
+                  <th className="p-3 font-semibold">مبلغ</th>
+                  <th className="p-3 font-semibold">تاریخ سررسید</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100/80">
+                {series.cheques.map((cheque, i) => (
+                  <tr key={cheque.id}>
+                    <td className="p-3 text-center text-slate-400">{i + 1}</td>
+                    <td className="p-3 font-medium text-slate-700" dir="ltr">{formatAmount(cheque.amount, display)}</td>
+                    <td className="p-3 font-medium text-slate-700" dir="ltr">{localizeDigits(cheque.date, display.digits)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className={`text-center text-sm py-10 ${series ? 'text-red-600' : 'text-slate-400'}`}>
+              {series ? failureMessages[series.reason] : 'برای پیش‌نمایش، مبلغ و تاریخ اولین سررسید را وارد کنید'}
+            </p>
+          )}
+        </div>
+
+        <div className="p-5 sm:p-6 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-slate-500">
+            {series?.ok ? <>جمع: <span className="font-bold text-slate-700">{formatAmount(series.total, display)}</span> {amountUnitLabels[display.unit]}</> : null}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2.5 text-slate-600 bg-slate-100 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+              انصراف
+            </button>
+            <button
+              onClick={() => series?.ok && onImport(series.cheques)}
+              disabled={!series?.ok}
+              className="px-4 py-2.5 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-indigo-200 disabled:opacity-50"
+            >
+              افزودن {series?.ok ? series.cheques.length : 0} چک
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
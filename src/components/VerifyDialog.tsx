@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ShieldCheck, X, Upload, CheckCircle2, XCircle, FolderOpen } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { DisplaySettings, HolidayCalendar } from '../types';
+import type { CaseFile, CaseFileFailure } from '../lib/caseFile';
+import { formatAmount, localizeDigits } from '../lib/money';
+import { formatAuditTime, parseAuditInput, verifyAudit, type AuditCheck, type AuditRecord, type Verification } from '../lib/audit';
+
+type VerifyDialogProps = {
+  // Prefilled from a report's QR link
+  initialInput: string;
+  calendar: HolidayCalendar;
+  display: DisplaySettings;
+  describeError: (failure: { reason: CaseFileFailure; field?: string }) => string;
+  onOpenCase: (file: CaseFile) => void;
+  onClose: () => void;
+};
+
+const checkLabels: Record<AuditCheck, string> = {
+  printedHash: 'شناسه چاپ‌شده روی گزارش',
+  hash: 'شناسه ثبت‌شده در کد',
+  totalAmount: 'جمع کل مبالغ',
+  averageDays: 'میانگین وزنی روزها',
+  rasDate: 'تاریخ راس',
+  adjustedRasDate: 'راس در روز کاری',
+};
+
+type Checked = { file: CaseFile; record: AuditRecord | null; verification: Verification };
+
+export default function VerifyDialog({ initialInput, calendar, display, describeError, onOpenCase, onClose }: VerifyDialogProps) {
+  const [input, setInput] = useState(initialInput);
+  const [printedHash, setPrintedHash] = useState('');
+  const [checked, setChecked] = useState<Checked | null>(null);
+  const [error, setError] = useState('');
+  // Figures from a QR code that had no room for the cheques, kept until the case file is loaded
+  const [qrRecord, setQrRecord] = useState<AuditRecord | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const verify = async (text: string) => {
+    setChecked(null);
+    setError('');
+    if (!text.trim()) return;
+
+    const result = await parseAuditInput(text);
+    if (result.ok === false) {
+      setError(describeError(result));
+      return;
+    }
+    if (!result.file) {
+      setQrRecord(result.record);
+      return;
+    }
+    const record = result.record ?? qrRecord;
+    const verification = await verifyAudit(result.file, record, calendar, printedHash);
+    setChecked({ file: result.file, record, verification });
+  };
+
+  useEffect(() => {
+    if (initialInput) verify(initialInput);
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setInput(text);
+    verify(text);
+  };
+
+  const formatValue = (check: AuditCheck, value: string) => {
+    if (check === 'hash' || check === 'printedHash' || value === '-') return value;
+    return check === 'totalAmount' ? formatAmount(value, display) : localizeDigits(value, display.digits);
+  };
+
+  const checks = checked?.verification.checks ?? [];
+  const allMatch = checks.length > 0 && checks.every(c => c.ok);
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50/50 border border-slate-200/60 rounded-xl focus:bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all text-sm font-medium text-slate-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 print:hidden"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+              <ShieldCheck className="w-5 h-5" />
+            </div>
+            <h2 className="text-lg font-bold text-slate-800">بررسی گزارش</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-6 space-y-4 overflow-y-auto">
+          <label className="block space-y-2">
+            <span className="text-sm font-medium text-slate-500">محتوای کد QR گزارش، یا متن فایل JSON پرونده</span>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={4}
+              dir="ltr"
+              className={`${inputClass} font-mono text-xs resize-none`}
+            />
+          </label>
+          <label className="block space-y-2">
+            <span className="text-sm font-medium text-slate-500">شناسه چاپ‌شده روی گزارش (اختیاری)</span>
+            <input value={printedHash} onChange={(e) => setPrintedHash(e.target.value)} dir="ltr" className={`${inputClass} font-mono text-xs`} />
+          </label>
+          <div className="flex gap-3">
+            <button onClick={() => verify(input)} className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all text-sm font-semibold shadow-sm shadow-indigo-200">
+              <ShieldCheck className="w-4 h-4" />
+              بررسی
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2.5 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+              <Upload className="w-4 h-4" />
+              بارگذاری فایل JSON
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleFile} accept=".json,application/json" className="hidden" />
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 rounded-2xl p-4">{error}</p>}
+
+          {qrRecord && !checked && (
+            <p className="text-sm text-slate-600 bg-slate-50 rounded-2xl p-4">
+              کد QR این گزارش جای چک‌ها را نداشت؛ فایل JSON پرونده را بارگذاری کنید تا با ارقام گزارش مقایسه شود.
+            </p>
+          )}
+
+          {checked && (
+            <div className="space-y-4">
+              {checks.length === 0 ? (
+                <p className="text-sm text-slate-600 bg-slate-50 rounded-2xl p-4">
+                  این فایل شناسه‌ای برای مقایسه ندارد؛ شناسه چاپ‌شده روی گزارش را وارد کنید یا نتیجه زیر را با گزارش مقایسه کنید.
+                </p>
+              ) : (
+                <p className={`flex items-center gap-2 text-sm font-semibold rounded-2xl p-4 ${allMatch ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+                  {allMatch ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                  {allMatch ? 'محاسبه دوباره با گزارش مطابقت دارد' : 'مغایرت پیدا شد؛ گزارش یا پرونده آن تغییر کرده است'}
+                </p>
+              )}
+
+              <div className="text-sm text-slate-600 space-y-1">
+                <p>پرونده: <span className="font-semibold text-slate-800">{checked.file.name}</span></p>
+                <p>تاریخ مبدا: <span className="font-semibold text-slate-800" dir="ltr">{localizeDigits(checked.file.baseDate, display.digits)}</span></p>
+                {checked.record && (
+                  <p>زمان تولید گزارش: <span className="font-semibold text-slate-800" dir="ltr">{localizeDigits(formatAuditTime(checked.record.createdAt), display.digits)}</span></p>
+                )}
+                {checked.verification.summary ? (
+                  <p>
+                    راس محاسبه‌شده: <span className="font-semibold text-emerald-700" dir="ltr">{localizeDigits(checked.verification.summary.rasDate, display.digits)}</span>
+                  </p>
+                ) : (
+                  <p className="text-rose-600">این پرونده چک معتبری برای محاسبه ندارد</p>
+                )}
+                {checked.verification.hash && (
+                  <p className="font-mono text-xs text-slate-500 break-all" dir="ltr">{checked.verification.hash}</p>
+                )}
+              </div>
+
+              {checks.length > 0 && (
+                <ul className="divide-y divide-slate-100 border border-slate-100 rounded-2xl text-sm">
+                  {checks.map(c => (
+                    <li key={c.check} className="p-3 flex items-start gap-3">
+                      {c.ok ? <CheckCircle2 className="w-4 h-4 text-emerald-600 mt-0.5 shrink-0" /> : <XCircle className="w-4 h-4 text-rose-600 mt-0.5 shrink-0" />}
+                      <div className="min-w-0">
+                        <p className="font-semibold text-slate-700">{checkLabels[c.check]}</p>
+                        <p className="text-xs text-slate-500 break-all" dir="ltr">
+                          {formatValue(c.check, c.expected)}
+                          {!c.ok && <> ≠ {formatValue(c.check, c.actual)}</>}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <button onClick={() => onOpenCase(checked.file)} className="flex items-center gap-2 px-4 py-2.5 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200 active:scale-95 transition-all text-sm font-semibold">
+                <FolderOpen className="w-4 h-4" />
+                نمایش پرونده (فقط خواندنی)
+              </button>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { Case, Cheque } from '../types';
+import { createAuditRecord, createVerifyUrl, parseAuditInput, verifyAudit } from './audit';
+import { createCase } from './cases';
+import { defaultHolidayCalendar } from './holidays';
+
+const calendar = defaultHolidayCalendar();
+
+const caseWith = (cheques: Cheque[]): Case => ({ ...createCase('نمونه', '1403/01/01'), cheques });
+
+const cheque = (i: number): Cheque => ({
+  id: String(i),
+  amount: String(1000003 * (i + 1) ** 3),
+  date: `1403/${String(1 + (i % 12)).padStart(2, '0')}/${String(1 + ((i * 7) % 29)).padStart(2, '0')}`,
+  type: i % 3 ? 'received' : 'paid',
+  counterparty: `طرف حساب ${i}`,
+});
+
+describe('createVerifyUrl', () => {
+  it('carries the counted cheques, so the QR alone verifies', async () => {
+    const source = caseWith([cheque(0), cheque(1), { ...cheque(2), status: 'bounced' }]);
+    source.settings.excludedStatuses = ['bounced'];
+    const record = await createAuditRecord(source, calendar);
+    const parsed = await parseAuditInput(await createVerifyUrl(record, 'https://example.com/'));
+    if (parsed.ok === false || !parsed.file) throw new Error('expected a case');
+
+    expect(parsed.file.cheques).toHaveLength(2);
+    const verification = await verifyAudit(parsed.file, parsed.record, calendar, record.hash);
+    expect(verification.checks.length).toBeGreaterThan(0);
+    expect(verification.checks.every(c => c.ok)).toBe(true);
+  });
+
+  it('leaves the cheques out when they are too many to scan', async () => {
+    const source = caseWith(Array.from({ length: 300 }, (_, i) => cheque(i)));
+    const record = await createAuditRecord(source, calendar);
+    const url = await createVerifyUrl(record, 'https://example.com/');
+    expect(url.length).toBeLessThanOrEqual(1200);
+
+    const parsed = await parseAuditInput(url);
+    if (parsed.ok === false) throw new Error('expected a record');
+    expect(parsed.file).toBeNull();
+    expect(parsed.record.hash).toBe(record.hash);
+    expect(parsed.record.summary).toEqual(record.summary);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Case, HolidayCalendar } from '../types';
+import { dateToJalali, formatJalali, parseJalali } from './jalali';
+import { calculateRas, type ProcessedCheque } from './ras';
+import { toLatinDigits } from './normalize';
+import {
+  CASE_FILE_FORMAT,
+  CASE_FILE_VERSION,
+  decodePayload,
+  encodePayload,
+  toCaseFile,
+  validateCaseFile,
+  type CaseFile,
+  type CaseFileFailure
+} from './caseFile';
+import { isPlainObject } from './validation';
+
+export const AUDIT_FORMAT = 'ras-giri-audit';
+export const AUDIT_VERSION = 1;
+export const AUDIT_QR_FORMAT = 'ras-giri-audit-qr';
+
+const VERIFY_HASH_KEY = 'verify';
+// Longer links make a QR code too dense to scan off paper
+const MAX_VERIFY_URL_LENGTH = 1200;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+// The figures a report printed, so a verifier can compare them with a fresh calculation
+export type AuditSummary = {
+  totalAmount: string;
+  averageDays: number;
+  rasDate: string;
+  adjustedRasDate: string;
+};
+
+export type AuditRecord = {
+  format: typeof AUDIT_FORMAT;
+  version: number;
+  // SHA-256 of baseDate and the normalised cheques, as hex
+  hash: string;
+  createdAt: string;
+  summary: AuditSummary;
+  // Null when read from a QR code that had no room for the cheques
+  case: CaseFile | null;
+};
+
+// What a report's QR code carries: the record with the case cut down to the cheques the ras
+// counts. The cheques are left out when even that is too long to scan.
+export type CompactAuditRecord = Omit<AuditRecord, 'format' | 'case'> & {
+  format: typeof AUDIT_QR_FORMAT;
+  name: string;
+  baseDate: string;
+  settings: Pick<CaseFile['settings'], 'businessDayMode' | 'rollDirection'>;
+  cheques?: ReturnType<typeof normaliseCheques>;
+};
+
+export type AuditInputResult =
+  | { ok: true; file: CaseFile | null; record: AuditRecord | null }
+  | { ok: false; reason: CaseFileFailure; field?: string };
+
+export type AuditCheck = 'hash' | 'printedHash' | keyof AuditSummary;
+
+export type AuditCheckResult = {
+  check: AuditCheck;
+  expected: string;
+  actual: string;
+  ok: boolean;
+};
+
+export type Verification = {
+  hash: string;
+  summary: AuditSummary | null;
+  checks: AuditCheckResult[];
+};
+
+// Only the cheques the ras counts, reduced to the fields it reads and sorted, so ids,
+// notes, row order and excluded or empty rows never change the hash
+export const normaliseCheques = (processedCheques: ProcessedCheque[]) => processedCheques
+  .filter(c => c.isDateValid && !c.isExcluded && c.parsedAmount > 0n)
+  .map(c => ({ date: formatJalali(parseJalali(c.date)), type: c.type, amount: c.parsedAmount.toString() }))
+  .sort((a, b) => a.date.localeCompare(b.date)
+    || a.type.localeCompare(b.type)
+    || a.amount.length - b.amount.length
+    || a.amount.localeCompare(b.amount));
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashInputs = (baseDate: string, processedCheques: ProcessedCheque[]) => {
+  return sha256Hex(JSON.stringify({ baseDate: formatJalali(parseJalali(baseDate)), cheques: normaliseCheques(processedCheques) }));
+};
+
+// Runs the calculation the way the app does for this case. The business-day roll uses the
+// local holiday calendar, since calendars are kept per browser rather than per case.
+const recompute = async (file: CaseFile, calendar: HolidayCalendar) => {
+  const { processedCheques, results, isBaseValid } = calculateRas({
+    baseDate: file.baseDate,
+    cheques: file.cheques.map((cheque, i) => ({ id: String(i), ...cheque })),
+    excludedStatuses: file.settings.excludedStatuses,
+    businessDays: file.settings.businessDayMode ? { calendar, roll: file.settings.rollDirection } : null
+  });
+  if (!isBaseValid || !results) return { hash: null, summary: null };
+
+  const summary: AuditSummary = {
+    totalAmount: results.totalAmount.toString(),
+    averageDays: results.averageDays,
+    rasDate: results.rasDate,
+    adjustedRasDate: results.adjustedRasDate
+  };
+  return { hash: await hashInputs(file.baseDate, processedCheques), summary };
+};
+
+// Local Jalali date and time of a record, as printed on the report
+export const formatAuditTime = (createdAt: string) => {
+  const date = new Date(createdAt);
+  const time = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  return `${dateToJalali(date)} ${time}`;
+};
+
+// Returns null when the case has nothing to report yet
+export const createAuditRecord = async (source: Case, calendar: HolidayCalendar): Promise<AuditRecord | null> => {
+  const file = toCaseFile(source);
+  const { hash, summary } = await recompute(file, calendar);
+  if (!hash || !summary) return null;
+  return { format: AUDIT_FORMAT, version: AUDIT_VERSION, hash, createdAt: new Date().toISOString(), summary, case: file };
+};
+
+export const toCompactRecord = ({ hash, createdAt, summary, case: file }: AuditRecord): CompactAuditRecord => {
+  const { processedCheques } = calculateRas({
+    baseDate: file.baseDate,
+    cheques: file.cheques.map((cheque, i) => ({ id: String(i), ...cheque })),
+    excludedStatuses: file.settings.excludedStatuses
+  });
+  return {
+    format: AUDIT_QR_FORMAT,
+    version: AUDIT_VERSION,
+    hash,
+    createdAt,
+    summary,
+    name: file.name,
+    baseDate: file.baseDate,
+    settings: { businessDayMode: file.settings.businessDayMode, rollDirection: file.settings.rollDirection },
+    cheques: normaliseCheques(processedCheques)
+  };
+};
+
+// The link a report's QR code carries; opening it lands on the verify screen.
+// Without room for the cheques, the verify screen asks for the case file instead.
+export const createVerifyUrl = async (record: AuditRecord, baseUrl: string) => {
+  const compact = toCompactRecord(record);
+  const url = `${baseUrl}#${VERIFY_HASH_KEY}=${await encodePayload(JSON.stringify(compact))}`;
+  if (url.length <= MAX_VERIFY_URL_LENGTH) return url;
+  const { cheques, ...withoutCheques } = compact;
+  return `${baseUrl}#${VERIFY_HASH_KEY}=${await encodePayload(JSON.stringify(withoutCheques))}`;
+};
+
+// Returns null when the hash carries no report to verify
+export const readVerifyHash = (hash: string) => {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(VERIFY_HASH_KEY);
+};
+
+const validateSummary = (raw: unknown): AuditSummary | null => {
+  if (!isPlainObject(raw)) return null;
+  const { totalAmount, averageDays, rasDate, adjustedRasDate } = raw;
+  if (typeof totalAmount !== 'string' || !/^\d+$/.test(totalAmount)) return null;
+  if (!Number.isInteger(averageDays)) return null;
+  if (typeof rasDate !== 'string' || typeof adjustedRasDate !== 'string') return null;
+  return { totalAmount, averageDays: averageDays as number, rasDate, adjustedRasDate };
+};
+
+// An audit record, a QR's compact record, or a plain case file whose hash is then checked against the printed one
+export const validateAuditInput = (raw: unknown): AuditInputResult => {
+  if (!isPlainObject(raw) || (raw.format !== AUDIT_FORMAT && raw.format !== AUDIT_QR_FORMAT)) {
+    const result = validateCaseFile(raw);
+    return result.ok === false ? result : { ok: true, file: result.file, record: null };
+  }
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) return { ok: false, reason: 'invalid-field', field: 'version' };
+  if ((raw.version as number) > AUDIT_VERSION) return { ok: false, reason: 'newer-version' };
+  if (typeof raw.hash !== 'string' || !HASH_PATTERN.test(raw.hash)) return { ok: false, reason: 'invalid-field', field: 'hash' };
+  if (typeof raw.createdAt !== 'string' || Number.isNaN(Date.parse(raw.createdAt))) {
+    return { ok: false, reason: 'invalid-field', field: 'createdAt' };
+  }
+  const summary = validateSummary(raw.summary);
+  if (!summary) return { ok: false, reason: 'invalid-field', field: 'summary' };
+
+  // A compact record is read as a case holding only the counted cheques, which recomputes to the same figures
+  const isCompact = raw.format === AUDIT_QR_FORMAT;
+  if (isCompact && raw.cheques === undefined) {
+    return { ok: true, file: null, record: { format: AUDIT_FORMAT, version: AUDIT_VERSION, hash: raw.hash, createdAt: raw.createdAt, summary, case: null } };
+  }
+  const result = validateCaseFile(isCompact
+    ? { format: CASE_FILE_FORMAT, version: CASE_FILE_VERSION, name: raw.name, baseDate: raw.baseDate, settings: raw.settings, cheques: raw.cheques }
+    : raw.case);
+  if (result.ok === false) return isCompact ? result : { ...result, field: result.field ? `case.${result.field}` : 'case' };
+  return {
+    ok: true,
+    file: result.file,
+    record: { format: AUDIT_FORMAT, version: AUDIT_VERSION, hash: raw.hash, createdAt: raw.createdAt, summary, case: result.file }
+  };
+};
+
+// Takes whatever the verify screen is given: the QR's link, its bare payload, or the text of a JSON file
+export const parseAuditInput = async (text: string): Promise<AuditInputResult> => {
+  const trimmed = text.trim();
+  let json = trimmed;
+  if (!trimmed.startsWith('{')) {
+    const hashIndex = trimmed.indexOf('#');
+    const payload = hashIndex === -1 ? trimmed : readVerifyHash(trimmed.slice(hashIndex)) ?? '';
+    try {
+      json = await decodePayload(payload);
+    } catch {
+      return { ok: false, reason: 'invalid-link' };
+    }
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, reason: 'invalid-json' };
+  }
+  return validateAuditInput(raw);
+};
+
+// Recompute the ras and compare it with the record and with a hash typed off a printed report
+export const verifyAudit = async (
+  file: CaseFile,
+  record: AuditRecord | null,
+  calendar: HolidayCalendar,
+  printedHash = ''
+): Promise<Verification> => {
+  const { hash, summary } = await recompute(file, calendar);
+  const checks: AuditCheckResult[] = [];
+  const compare = (check: AuditCheck, expected: string, actual: string | null) => {
+    checks.push({ check, expected, actual: actual ?? '-', ok: expected === actual });
+  };
+
+  const typed = toLatinDigits(printedHash).replace(/\s/g, '').toLowerCase();
+  if (typed) compare('printedHash', typed, hash);
+  if (record) {
+    compare('hash', record.hash, hash);
+    compare('totalAmount', record.summary.totalAmount, summary?.totalAmount ?? null);
+    compare('averageDays', String(record.summary.averageDays), summary ? String(summary.averageDays) : null);
+    compare('rasDate', record.summary.rasDate, summary?.rasDate ?? null);
+    // Only meaningful when the case rolls onto business days, and then only with a matching calendar
+    if (file.settings.businessDayMode) compare('adjustedRasDate', record.summary.adjustedRasDate, summary?.adjustedRasDate ?? null);
+  }
+  return { hash: hash ?? '', summary, checks };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque } from '../types';
+import { duplicateCheques, removeCheques, shiftChequeDates, sortCheques } from './bulk';
+
+const cheque = (id: string, amount: string, date: string): Cheque => ({ id, amount, date, type: 'received' });
+
+const rows = [
+  cheque('1', '300', '1403/03/01'),
+  cheque('2', '', '1403/01/01'),
+  cheque('3', '100', ''),
+  cheque('4', '200', '1403/02/01'),
+  cheque('5', '100', '1403/02/01'),
+];
+
+const ids = (cheques: Cheque[]) => cheques.map(c => c.id);
+
+describe('sortCheques', () => {
+  it('sorts by amount either way, keeping ties in order and empty amounts last', () => {
+    expect(ids(sortCheques(rows, 'amount', 'asc'))).toEqual(['3', '5', '4', '1', '2']);
+    expect(ids(sortCheques(rows, 'amount', 'desc'))).toEqual(['1', '4', '3', '5', '2']);
+  });
+
+  it('sorts by date with undated rows last', () => {
+    expect(ids(sortCheques(rows, 'date', 'asc'))).toEqual(['2', '4', '5', '1', '3']);
+    expect(ids(sortCheques(rows, 'date', 'desc'))).toEqual(['1', '4', '5', '2', '3']);
+  });
+
+  it('compares amounts above Number.MAX_SAFE_INTEGER exactly', () => {
+    const big = [cheque('a', '9007199254740993', ''), cheque('b', '9007199254740992', '')];
+    expect(ids(sortCheques(big, 'amount', 'asc'))).toEqual(['b', 'a']);
+  });
+});
+
+describe('shiftChequeDates', () => {
+  it('moves only the selected dated rows', () => {
+    const shifted = shiftChequeDates(rows, new Set(['1', '3', '4']), 10, 'day');
+    expect(shifted.map(c => c.date)).toEqual(['1403/03/11', '1403/01/01', '', '1403/02/11', '1403/02/01']);
+  });
+
+  it('moves by months, clamping to the end of shorter months', () => {
+    const shifted = shiftChequeDates([cheque('1', '1', '1403/06/31'), cheque('2', '1', '1403/11/30')], new Set(['1', '2']), 1, 'month');
+    expect(shifted.map(c => c.date)).toEqual(['1403/07/30', '1403/12/30']);
+    expect(shiftChequeDates([cheque('1', '1', '1404/01/31')], new Set(['1']), -1, 'month')[0].date).toBe('1403/12/30');
+  });
+});
+
+describe('removeCheques and duplicateCheques', () => {
+  it('remove the selected rows', () => {
+    expect(ids(removeCheques(rows, new Set(['2', '4'])))).toEqual(['1', '3', '5']);
+  });
+
+  it('place each copy after its original with a fresh id', () => {
+    const result = duplicateCheques(rows.slice(0, 2), new Set(['1']));
+    expect(result).toHaveLength(3);
+    expect(result[1]).toMatchObject({ amount: '300', date: '1403/03/01' });
+    expect(result[1].id).not.toBe('1');
+    expect(result[2].id).toBe('2');
+  });
+});
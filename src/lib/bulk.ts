@@ -0,0 +1,45 @@
+import type { Cheque } from '../types';
+import { cloneCheque } from './cases';
+import { addJalaliDays, addJalaliMonthsToDate, isValidJalali } from './jalali';
+import { parseNumber } from './ras';
+
+export type ShiftUnit = 'day' | 'month';
+
+export type SortKey = 'amount' | 'date';
+
+export type SortDirection = 'asc' | 'desc';
+
+export const removeCheques = (cheques: Cheque[], ids: Set<string>) => {
+  return cheques.filter(c => !ids.has(c.id));
+};
+
+// Each copy is placed right after its original
+export const duplicateCheques = (cheques: Cheque[], ids: Set<string>) => {
+  return cheques.flatMap(c => ids.has(c.id) ? [c, cloneCheque(c)] : [c]);
+};
+
+// Move due dates by whole days or Jalali months; rows without a valid date are left alone
+export const shiftChequeDates = (cheques: Cheque[], ids: Set<string>, amount: number, unit: ShiftUnit) => {
+  return cheques.map(c => {
+    if (!ids.has(c.id) || !isValidJalali(c.date)) return c;
+    const date = unit === 'day' ? addJalaliDays(c.date, amount) : addJalaliMonthsToDate(c.date, amount);
+    return { ...c, date };
+  });
+};
+
+// Stable sort; rows missing the sort value always go last
+export const sortCheques = (cheques: Cheque[], key: SortKey, direction: SortDirection) => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const hasValue = (c: Cheque) => key === 'amount' ? parseNumber(c.amount) > 0n : isValidJalali(c.date);
+  const compare = (a: Cheque, b: Cheque) => {
+    if (key === 'date') return a.date.localeCompare(b.date);
+    const diff = parseNumber(a.amount) - parseNumber(b.amount);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  };
+  return [...cheques].sort((a, b) => {
+    const aHas = hasValue(a);
+    const bHas = hasValue(b);
+    if (aHas !== bHas) return aHas ? -1 : 1;
+    return aHas ? compare(a, b) * sign : 0;
+  });
+};
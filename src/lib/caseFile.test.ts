@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { CASE_FILE_FORMAT, CASE_FILE_VERSION, encodePayload, parseCaseFile, readShareHash } from './caseFile';
+
+const fileWith = (cheques: unknown[], baseDate = '1403/01/01') => ({
+  format: CASE_FILE_FORMAT,
+  version: CASE_FILE_VERSION,
+  name: 'نمونه',
+  baseDate,
+  cheques,
+  settings: {}
+});
+
+const shareHash = async (file: unknown) => `#share=${await encodePayload(JSON.stringify(file))}`;
+
+describe('parseCaseFile', () => {
+  it('pads unpadded dates on load', () => {
+    const result = parseCaseFile(JSON.stringify(fileWith([{ amount: '100', date: '1403/1/5', type: 'received' }], '1403/1/1')));
+    if (result.ok === false) throw new Error(result.reason);
+    expect(result.file.baseDate).toBe('1403/01/01');
+    expect(result.file.cheques[0].date).toBe('1403/01/05');
+  });
+
+  it('keeps empty dates for rows not filled in yet', () => {
+    const result = parseCaseFile(JSON.stringify(fileWith([{ amount: '', date: '', type: 'received' }])));
+    expect(result.ok && result.file.cheques[0].date).toBe('');
+  });
+
+  it('rejects dates that are not dates', () => {
+    expect(parseCaseFile(JSON.stringify(fileWith([{ amount: '100', date: '////', type: 'received' }]))))
+      .toEqual({ ok: false, reason: 'invalid-field', field: 'cheques[0].date' });
+    expect(parseCaseFile(JSON.stringify(fileWith([], '1403/'))))
+      .toEqual({ ok: false, reason: 'invalid-field', field: 'baseDate' });
+  });
+});
+
+describe('readShareHash', () => {
+  it('normalises dates in shared links', async () => {
+    const result = await readShareHash(await shareHash(fileWith([{ amount: '100', date: '1403/2/9', type: 'paid' }])));
+    expect(result?.ok && result.file.cheques[0].date).toBe('1403/02/09');
+  });
+
+  it('rejects shared links with malformed dates', async () => {
+    const result = await readShareHash(await shareHash(fileWith([{ amount: '100', date: '1403//5', type: 'paid' }])));
+    expect(result).toEqual({ ok: false, reason: 'invalid-field', field: 'cheques[0].date' });
+  });
+
+  it('ignores hashes without a shared case', async () => {
+    expect(await readShareHash('#verify=abc')).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import type { Case, CaseSettings, Cheque, ChequeDetails } from '../types';
+import { CHEQUE_DETAIL_FIELDS, createCase, createEmptyCheque, defaultCaseSettings } from './cases';
+import {
+  CHEQUE_STATUSES,
+  FieldError,
+  isPlainObject,
+  readOneOf,
+  readString,
+  validateSettings
+} from './validation';
+import { normalizeDate } from './normalize';
+
+export const CASE_FILE_FORMAT = 'ras-giri-case';
+export const CASE_FILE_VERSION = 1;
+
+const SHARE_HASH_KEY = 'share';
+
+// Cheque ids are local to a browser, so files carry only what the calculation needs
+export type CaseFileCheque = Omit<Cheque, 'id'>;
+
+export type CaseFile = {
+  format: typeof CASE_FILE_FORMAT;
+  version: number;
+  name: string;
+  baseDate: string;
+  cheques: CaseFileCheque[];
+  settings: CaseSettings;
+};
+
+export type CaseFileFailure = 'invalid-json' | 'not-case-file' | 'newer-version' | 'invalid-field' | 'invalid-link';
+
+export type CaseFileResult =
+  | { ok: true; file: CaseFile }
+  | { ok: false; reason: CaseFileFailure; field?: string };
+
+export const toCaseFile = ({ name, baseDate, cheques, settings }: Case): CaseFile => ({
+  format: CASE_FILE_FORMAT,
+  version: CASE_FILE_VERSION,
+  name,
+  baseDate,
+  cheques: cheques.map(({ id, ...cheque }) => cheque),
+  settings
+});
+
+// Dates are stored zero-padded as YYYY/MM/DD, which sorting and slicing rely on downstream.
+// That shape is kept as-is (the table flags impossible days); '1403/1/5' is padded and
+// anything that is not a date at all is rejected.
+const readDate = (raw: Record<string, unknown>, key: string, path: string) => {
+  const value = readString(raw, key, path);
+  if (!value || /^\d{4}\/\d{2}\/\d{2}$/.test(value)) return value;
+  const normalized = normalizeDate(value);
+  if (normalized.error !== null) throw new FieldError(path);
+  return normalized.value;
+};
+
+const validateCheque = (raw: unknown, path: string): CaseFileCheque => {
+  if (!isPlainObject(raw)) throw new FieldError(path);
+  const cheque: CaseFileCheque = {
+    amount: readString(raw, 'amount', `${path}.amount`, /^\d*$/),
+    date: readDate(raw, 'date', `${path}.date`),
+    type: readOneOf(raw.type, ['received', 'paid'], `${path}.type`)
+  };
+
+  const details: ChequeDetails = {};
+  for (const field of CHEQUE_DETAIL_FIELDS) {
+    if (raw[field] !== undefined) details[field] = readString(raw, field, `${path}.${field}`);
+  }
+  if (raw.status !== undefined) {
+    details.status = readOneOf(raw.status, CHEQUE_STATUSES, `${path}.status`);
+  }
+  return { ...cheque, ...details };
+};
+
+export const validateCaseFile = (raw: unknown): CaseFileResult => {
+  if (!isPlainObject(raw) || raw.format !== CASE_FILE_FORMAT) return { ok: false, reason: 'not-case-file' };
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) return { ok: false, reason: 'invalid-field', field: 'version' };
+  if ((raw.version as number) > CASE_FILE_VERSION) return { ok: false, reason: 'newer-version' };
+
+  try {
+    if (!Array.isArray(raw.cheques)) throw new FieldError('cheques');
+    return {
+      ok: true,
+      file: {
+        format: CASE_FILE_FORMAT,
+        version: CASE_FILE_VERSION,
+        name: readString(raw, 'name', 'name'),
+        baseDate: readDate(raw, 'baseDate', 'baseDate'),
+        cheques: raw.cheques.map((c, i) => validateCheque(c, `cheques[${i}]`)),
+        settings: validateSettings(raw.settings, defaultCaseSettings())
+      }
+    };
+  } catch (err) {
+    if (err instanceof FieldError) return { ok: false, reason: 'invalid-field', field: err.field };
+    throw err;
+  }
+};
+
+export const parseCaseFile = (text: string): CaseFileResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: 'invalid-json' };
+  }
+  return validateCaseFile(raw);
+};
+
+// Imported cases always get fresh ids so they never collide with saved ones
+export const caseFromFile = (file: CaseFile): Case => ({
+  ...createCase(file.name, file.baseDate),
+  cheques: file.cheques.length > 0
+    ? file.cheques.map(cheque => ({ ...createEmptyCheque(), ...cheque }))
+    : [createEmptyCheque()],
+  settings: file.settings
+});
+
+export const downloadCaseFile = (source: Case) => {
+  const blob = new Blob([JSON.stringify(toCaseFile(source), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${source.name || 'ras-giri'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+// Deflate and base64url-encode JSON so it fits in a URL hash and never reaches a server
+export const encodePayload = async (json: string) => {
+  return toBase64Url(await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+// Rejects when the payload is not valid base64url or deflate data
+export const decodePayload = async (payload: string) => {
+  const bytes = await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+  return new TextDecoder().decode(bytes);
+};
+
+export const createShareUrl = async (source: Case, baseUrl: string) => {
+  const payload = await encodePayload(JSON.stringify(toCaseFile(source)));
+  return `${baseUrl}#${SHARE_HASH_KEY}=${payload}`;
+};
+
+// Returns null when the hash carries no shared case
+export const readShareHash = async (hash: string): Promise<CaseFileResult | null> => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  if (payload === null) return null;
+
+  let text: string;
+  try {
+    text = await decodePayload(payload);
+  } catch {
+    return { ok: false, reason: 'invalid-link' };
+  }
+  return parseCaseFile(text);
+};
@@ -0,0 +1,139 @@
+import type { Case, CaseSettings, Cheque, ChequeDetails, ChequeStatus, ChequeType } from '../types';
+import { isPlainObject, validateSettings } from './validation';
+
+const CASES_KEY = 'ras-giri:cases';
+const ACTIVE_CASE_KEY = 'ras-giri:active-case';
+
+export const chequeTypeLabels: Record<ChequeType, string> = {
+  received: 'دریافتی',
+  paid: 'پرداختی',
+};
+
+export const chequeStatusLabels: Record<ChequeStatus, string> = {
+  pending: 'در انتظار',
+  cleared: 'وصول شده',
+  bounced: 'برگشتی',
+  cancelled: 'باطل شده',
+};
+
+export const CHEQUE_DETAIL_FIELDS = ['counterparty', 'bank', 'branch', 'serial', 'sayadId', 'note'] as const;
+
+const createId = () => Date.now().toString() + Math.random().toString(36).substring(7);
+
+export const createEmptyCheque = (): Cheque => ({
+  id: createId(),
+  amount: '',
+  date: '',
+  type: 'received'
+});
+
+export const cloneCheque = (cheque: Cheque): Cheque => ({ ...cheque, id: createId() });
+
+export const defaultCaseSettings = (): CaseSettings => ({
+  discountEnabled: false,
+  annualRate: '',
+  interestMethod: 'compound',
+  excludedStatuses: [],
+  upcomingDays: 14,
+  businessDayMode: false,
+  rollDirection: 'next'
+});
+
+export const createCase = (name: string, baseDate: string): Case => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    baseDate,
+    cheques: [createEmptyCheque()],
+    settings: defaultCaseSettings(),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const duplicateCase = (source: Case): Case => {
+  const now = Date.now();
+  return {
+    ...source,
+    id: createId(),
+    name: `${source.name} (کپی)`,
+    cheques: source.cheques.map(cloneCheque),
+    settings: { ...source.settings },
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+const readText = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+
+const normalizeDetails = (raw: Record<string, unknown>): ChequeDetails => {
+  const details: ChequeDetails = {};
+  for (const field of CHEQUE_DETAIL_FIELDS) {
+    const value = raw[field];
+    if (typeof value === 'string' && value) details[field] = value;
+  }
+  if (typeof raw.status === 'string' && raw.status in chequeStatusLabels) details.status = raw.status as ChequeStatus;
+  return details;
+};
+
+const normalizeCheque = (raw: unknown): Cheque | null => {
+  if (!isPlainObject(raw)) return null;
+  return {
+    ...normalizeDetails(raw),
+    id: readText(raw.id) || createId(),
+    amount: readText(raw.amount),
+    date: readText(raw.date),
+    type: raw.type === 'paid' ? 'paid' : 'received'
+  };
+};
+
+// Settings go through the case-file validator; a corrupted entry falls back to the defaults
+const normalizeSettings = (raw: unknown): CaseSettings => {
+  try {
+    return validateSettings(raw, defaultCaseSettings());
+  } catch {
+    return defaultCaseSettings();
+  }
+};
+
+// Fill in fields that older saved cases may be missing
+const normalizeCase = (raw: unknown): Case | null => {
+  if (!isPlainObject(raw) || typeof raw.id !== 'string' || !Array.isArray(raw.cheques)) return null;
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : 'بدون نام',
+    baseDate: typeof raw.baseDate === 'string' ? raw.baseDate : '',
+    cheques: raw.cheques.map(normalizeCheque).filter((c): c is Cheque => c !== null),
+    settings: normalizeSettings(raw.settings),
+    createdAt: Number(raw.createdAt) || Date.now(),
+    updatedAt: Number(raw.updatedAt) || Date.now()
+  };
+};
+
+export const loadCases = (): Case[] => {
+  try {
+    const raw = localStorage.getItem(CASES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeCase).filter((c): c is Case => c !== null);
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+export const saveCases = (cases: Case[]) => {
+  try {
+    localStorage.setItem(CASES_KEY, JSON.stringify(cases));
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+export const loadActiveCaseId = () => localStorage.getItem(ACTIVE_CASE_KEY);
+
+export const saveActiveCaseId = (id: string) => {
+  localStorage.setItem(ACTIVE_CASE_KEY, id);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque } from '../types';
+import { aggregateCashflow, getDueState, periodStart, summarizeDue } from './cashflow';
+import { calculateRas } from './ras';
+
+const cheque = (id: string, amount: string, date: string, extra: Partial<Cheque> = {}): Cheque => ({
+  id,
+  amount,
+  date,
+  type: 'received',
+  ...extra
+});
+
+const processed = (cheques: Cheque[]) => calculateRas({ baseDate: '1403/01/01', cheques, excludedStatuses: ['cancelled'] }).processedCheques;
+
+describe('periodStart', () => {
+  it('starts weeks on Saturday, across a year boundary', () => {
+    // 1403/01/01 is a Wednesday
+    expect(periodStart('1403/01/01', 'week')).toBe('1402/12/26');
+    expect(periodStart('1402/12/26', 'week')).toBe('1402/12/26');
+    expect(periodStart('1403/01/03', 'week')).toBe('1402/12/26');
+    expect(periodStart('1403/01/04', 'week')).toBe('1403/01/04');
+  });
+
+  it('starts months on the first', () => {
+    expect(periodStart('1403/12/30', 'month')).toBe('1403/12/01');
+    expect(periodStart('1403/06/31', 'day')).toBe('1403/06/31');
+  });
+});
+
+describe('aggregateCashflow', () => {
+  const cheques = processed([
+    cheque('1', '100', '1403/01/31'),
+    cheque('2', '40', '1403/02/01', { type: 'paid' }),
+    cheque('3', '60', '1403/01/01', { type: 'paid' }),
+    cheque('4', '999', '1403/01/15', { status: 'cancelled' }),
+    cheque('5', '', '1403/01/15'),
+  ]);
+
+  it('sums each direction per month, in date order', () => {
+    expect(aggregateCashflow(cheques, 'month').map(b => [b.start, b.label, b.received, b.paid, b.count])).toEqual([
+      ['1403/01/01', 'فروردین 1403', 100n, 60n, 2],
+      ['1403/02/01', 'اردیبهشت 1403', 0n, 40n, 1],
+    ]);
+  });
+
+  it('puts month-end and month-start cheques in the same week', () => {
+    // 1403/01/31 is a Friday and 1403/02/01 the Saturday after, which opens the next week
+    expect(aggregateCashflow(cheques, 'week').map(b => [b.start, b.count])).toEqual([
+      ['1402/12/26', 1],
+      ['1403/01/25', 1],
+      ['1403/02/01', 1],
+    ]);
+  });
+});
+
+describe('getDueState', () => {
+  it('splits pending cheques around today', () => {
+    const [overdue, upcoming, later, cleared] = processed([
+      cheque('1', '100', '1403/01/09'),
+      cheque('2', '100', '1403/01/24'),
+      cheque('3', '100', '1403/01/25'),
+      cheque('4', '100', '1403/01/09', { status: 'cleared' }),
+    ]);
+    expect([overdue, upcoming, later, cleared].map(c => getDueState(c, '1403/01/10', 14))).toEqual(['overdue', 'upcoming', 'later', null]);
+  });
+
+  it('totals and sorts the due lists', () => {
+    const summary = summarizeDue(processed([
+      cheque('1', '100', '1403/01/12'),
+      cheque('2', '50', '1403/01/11', { type: 'paid' }),
+      cheque('3', '70', '1403/01/05'),
+    ]), '1403/01/10', 14);
+    expect(summary.upcoming.map(c => c.id)).toEqual(['2', '1']);
+    expect([summary.overdueAmount, summary.upcomingAmount]).toEqual([70n, 150n]);
+  });
+});
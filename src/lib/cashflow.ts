@@ -0,0 +1,88 @@
+import type { ProcessedCheque } from './ras';
+import {
+  JALALI_MONTH_NAMES,
+  dayNumberToJalali,
+  diffJalaliDays,
+  jalaliToDayNumber,
+  jalaliWeekday,
+  parseJalali
+} from './jalali';
+
+export type Period = 'day' | 'week' | 'month';
+
+export type DueState = 'overdue' | 'upcoming' | 'later';
+
+export type CashflowBucket = {
+  key: string;
+  label: string;
+  // First day of the bucket, used for ordering
+  start: string;
+  received: bigint;
+  paid: bigint;
+  count: number;
+};
+
+export type DueSummary = {
+  overdue: ProcessedCheque[];
+  upcoming: ProcessedCheque[];
+  overdueAmount: bigint;
+  upcomingAmount: bigint;
+};
+
+// Cheques that represent an actual future or past movement of money
+const isScheduled = (c: ProcessedCheque) => c.isDateValid && !c.isExcluded && c.parsedAmount > 0n;
+
+// Only pending cheques can be overdue; cleared or bounced ones are already settled one way or the other
+export const getDueState = (cheque: ProcessedCheque, today: string, upcomingDays: number): DueState | null => {
+  if (!isScheduled(cheque) || (cheque.status ?? 'pending') !== 'pending') return null;
+  const days = diffJalaliDays(today, cheque.date);
+  if (days < 0) return 'overdue';
+  return days <= upcomingDays ? 'upcoming' : 'later';
+};
+
+export const summarizeDue = (cheques: ProcessedCheque[], today: string, upcomingDays: number): DueSummary => {
+  const overdue: ProcessedCheque[] = [];
+  const upcoming: ProcessedCheque[] = [];
+  for (const cheque of cheques) {
+    const state = getDueState(cheque, today, upcomingDays);
+    if (state === 'overdue') overdue.push(cheque);
+    if (state === 'upcoming') upcoming.push(cheque);
+  }
+  const sum = (list: ProcessedCheque[]) => list.reduce((total, c) => total + c.parsedAmount, 0n);
+  const byDate = (a: ProcessedCheque, b: ProcessedCheque) => a.date.localeCompare(b.date);
+
+  return {
+    overdue: overdue.sort(byDate),
+    upcoming: upcoming.sort(byDate),
+    overdueAmount: sum(overdue),
+    upcomingAmount: sum(upcoming)
+  };
+};
+
+// First day of the bucket a date falls into; weeks start on Saturday
+export const periodStart = (date: string, period: Period) => {
+  if (period === 'day') return date;
+  if (period === 'week') return dayNumberToJalali(jalaliToDayNumber(date) - jalaliWeekday(date));
+  return date.slice(0, 8) + '01';
+};
+
+const bucketLabel = (start: string, period: Period) => {
+  const { jy, jm, jd } = parseJalali(start);
+  if (period === 'month') return `${JALALI_MONTH_NAMES[jm - 1]} ${jy}`;
+  if (period === 'week') return `هفته ${jd} ${JALALI_MONTH_NAMES[jm - 1]}`;
+  return start;
+};
+
+// Total received and paid amounts per day, week or month, in date order
+export const aggregateCashflow = (cheques: ProcessedCheque[], period: Period): CashflowBucket[] => {
+  const buckets = new Map<string, CashflowBucket>();
+  for (const cheque of cheques) {
+    if (!isScheduled(cheque)) continue;
+    const start = periodStart(cheque.date, period);
+    const bucket = buckets.get(start) ?? { key: start, label: bucketLabel(start, period), start, received: 0n, paid: 0n, count: 0 };
+    bucket[cheque.type] += cheque.parsedAmount;
+    bucket.count++;
+    buckets.set(start, bucket);
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.start.localeCompare(b.start));
+};
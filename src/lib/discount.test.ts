@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque, InterestMethod } from '../types';
+import { calculateDiscount, parseRate } from './discount';
+import { calculateRas } from './ras';
+
+const cheque = (id: string, amount: string, date: string): Cheque => ({ id, amount, date, type: 'received' });
+
+const discountOf = (baseDate: string, cheques: Cheque[], annualRate: number, method: InterestMethod) => {
+  const { processedCheques } = calculateRas({ baseDate, cheques });
+  return calculateDiscount({ baseDate, processedCheques, annualRate, method });
+};
+
+// One above Number.MAX_SAFE_INTEGER, where Number arithmetic starts losing units
+const UNSAFE = '9007199254740993';
+
+describe('parseRate', () => {
+  it('reads percentages with either decimal mark', () => {
+    expect(parseRate('23.5')).toBeCloseTo(0.235);
+    expect(parseRate('23٫5')).toBeCloseTo(0.235);
+    expect(parseRate('-1')).toBeNull();
+  });
+});
+
+describe('calculateDiscount', () => {
+  it('keeps amounts above Number.MAX_SAFE_INTEGER exact', () => {
+    const summary = discountOf('1403/01/01', [cheque('1', UNSAFE, '1403/01/11')], 0, 'simple');
+    expect(summary?.presentValues['1']).toBe(BigInt(UNSAFE));
+    expect(summary?.totalDiscount).toBe(0n);
+  });
+
+  it('discounts a year of simple interest', () => {
+    // 1404 is a common year of 365 days
+    const summary = discountOf('1404/01/01', [cheque('1', '110000000000000000011', '1405/01/01')], 0.1, 'simple');
+    expect(summary?.presentValues['1']).toBe(100000000000000000010n);
+    expect(summary?.totalDiscount).toBe(10000000000000000001n);
+    expect(summary?.equivalentDate).toBe('1405/01/01');
+  });
+
+  it('discounts compound interest over fractions of a year', () => {
+    const summary = discountOf('1403/01/01', [cheque('1', '1000000', '1403/07/01')], 0.2, 'compound');
+    // 186 days at 20% a year
+    expect(summary?.presentValues['1']).toBe(BigInt(Math.round(1000000 / 1.2 ** (186 / 365))));
+  });
+
+  it('totals the rounded per-cheque values', () => {
+    const summary = discountOf('1403/01/01', [cheque('1', '1000', '1403/02/01'), cheque('2', '3000', '1403/05/01')], 0.3, 'compound');
+    expect(summary?.totalPresentValue).toBe(summary!.presentValues['1'] + summary!.presentValues['2']);
+  });
+
+  it('skips only a cheque simple interest cannot discount', () => {
+    // At 100% simple interest a cheque a year or more before baseDate has no positive growth factor
+    const summary = discountOf('1404/01/01', [cheque('1', '1000', '1403/01/01'), cheque('2', '1000', '1404/01/11')], 1, 'simple');
+    expect(summary?.skippedIds).toEqual(['1']);
+    expect(summary?.totalAmount).toBe(1000n);
+    expect(Object.keys(summary!.presentValues)).toEqual(['2']);
+  });
+
+  it('falls back to the weighted average with no interest', () => {
+    const summary = discountOf('1403/01/01', [cheque('1', '100', '1403/01/11'), cheque('2', '300', '1403/01/31')], 0, 'compound');
+    expect(summary?.equivalentDays).toBe(25);
+    expect(summary?.equivalentDate).toBe('1403/01/26');
+  });
+});
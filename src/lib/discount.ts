@@ -0,0 +1,105 @@
+import type { InterestMethod } from '../types';
+import { addJalaliDays } from './jalali';
+import { roundDiv, type ProcessedCheque } from './ras';
+
+const DAYS_PER_YEAR = 365;
+
+export const interestMethodLabels: Record<InterestMethod, string> = {
+  compound: 'مرکب',
+  simple: 'ساده',
+};
+
+export type DiscountInput = {
+  baseDate: string;
+  processedCheques: ProcessedCheque[];
+  annualRate: number;
+  method: InterestMethod;
+};
+
+export type DiscountSummary = {
+  // The inputs the figures were produced with, so reports can state them
+  annualRate: number;
+  method: InterestMethod;
+  presentValues: Record<string, bigint>;
+  // Counted cheques with no present value, left out of every total
+  skippedIds: string[];
+  totalAmount: bigint;
+  totalPresentValue: bigint;
+  totalDiscount: bigint;
+  equivalentDays: number;
+  equivalentDate: string;
+};
+
+// Parse a percentage such as "23.5" (or with a Persian decimal separator) into a fraction
+export const parseRate = (str: string) => {
+  const rate = parseFloat(str.replace(/[٫\/]/g, '.').replace(/,/g, ''));
+  return Number.isFinite(rate) && rate >= 0 ? rate / 100 : null;
+};
+
+// Growth factor of one unit of money over `days` at an annual rate
+const growthFactor = (annualRate: number, method: InterestMethod, days: number) => {
+  const years = days / DAYS_PER_YEAR;
+  return method === 'compound' ? Math.pow(1 + annualRate, years) : 1 + annualRate * years;
+};
+
+// Inverse of growthFactor: the number of days over which money grows by `factor`
+const daysForFactor = (annualRate: number, method: InterestMethod, factor: number) => {
+  const years = method === 'compound' ? Math.log(factor) / Math.log(1 + annualRate) : (factor - 1) / annualRate;
+  return years * DAYS_PER_YEAR;
+};
+
+// Growth factors are fixed-point with 15 decimals, so amounts stay BigInt and only the
+// factor itself, which is irrational under compound interest, is a float
+const FACTOR_DIGITS = 15;
+const FACTOR_SCALE = 10n ** BigInt(FACTOR_DIGITS);
+
+const scaleFactor = (factor: number) => BigInt(Math.round(factor * 10 ** FACTOR_DIGITS));
+
+// Present value of each cheque at baseDate, the total discount, and the single
+// payment date whose present value equals that of the whole bundle
+export const calculateDiscount = ({ baseDate, processedCheques, annualRate, method }: DiscountInput): DiscountSummary | null => {
+  const presentValues: Record<string, bigint> = {};
+  const skippedIds: string[] = [];
+  let totalAmount = 0n;
+  let totalPresentValue = 0n;
+  let weightedDays = 0n;
+
+  for (const cheque of processedCheques) {
+    if (!cheque.isDateValid || cheque.isExcluded || cheque.parsedAmount <= 0n || cheque.days === '-') continue;
+    const days = Number(cheque.days);
+    // Simple interest has no present value for a cheque due 1/rate years or more before baseDate,
+    // and a growth factor past the float range leaves nothing meaningful to show
+    const growth = growthFactor(annualRate, method, days);
+    const factor = Number.isFinite(growth) ? scaleFactor(growth) : 0n;
+    if (factor <= 0n) {
+      skippedIds.push(cheque.id);
+      continue;
+    }
+
+    const pv = roundDiv(cheque.parsedAmount * FACTOR_SCALE, factor);
+    presentValues[cheque.id] = pv;
+    totalAmount += cheque.parsedAmount;
+    totalPresentValue += pv;
+    weightedDays += cheque.parsedAmount * BigInt(days);
+  }
+
+  if (totalAmount === 0n || totalPresentValue <= 0n) return null;
+
+  // With no interest every date has the same value; fall back to the plain weighted average.
+  // The ratio of the totals is only used as a growth factor, where a float is precise enough.
+  const equivalentDays = annualRate > 0
+    ? Math.round(daysForFactor(annualRate, method, Number(totalAmount * FACTOR_SCALE / totalPresentValue) / 10 ** FACTOR_DIGITS))
+    : Number(roundDiv(weightedDays, totalAmount));
+
+  return {
+    annualRate,
+    method,
+    presentValues,
+    skippedIds,
+    totalAmount,
+    totalPresentValue,
+    totalDiscount: totalAmount - totalPresentValue,
+    equivalentDays,
+    equivalentDate: addJalaliDays(baseDate, equivalentDays)
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import type { Cheque } from '../types';
+import type { AuditRecord } from './audit';
+import { buildWorkbook } from './exporter';
+import { buildPreview, getSheetData, guessColumnMapping, previewToCheques } from './importer';
+import { calculateRas } from './ras';
+
+const cheques: Cheque[] = [
+  { id: '1', amount: '1000', date: '1403/01/11', type: 'received', counterparty: 'الف', bank: 'ملت', branch: 'مرکزی', serial: '12', note: 'قسط اول' },
+  { id: '2', amount: '2000', date: '1403/02/01', type: 'paid', status: 'cleared', note: 'پاس شد' },
+  { id: '3', amount: '', date: '', type: 'received' },
+];
+
+const exportCase = () => {
+  const { processedCheques, results } = calculateRas({ baseDate: '1403/01/01', cheques, excludedStatuses: ['cleared'] });
+  const audit = { hash: 'a'.repeat(64), createdAt: new Date().toISOString() } as AuditRecord;
+  return buildWorkbook({ caseName: 'نمونه', baseDate: '1403/01/01', processedCheques, results, audit });
+};
+
+describe('buildWorkbook', () => {
+  it('exports excluded cheques and re-imports every detail', () => {
+    const wb = exportCase();
+    const data = getSheetData(wb, wb.SheetNames[0]);
+    const imported = previewToCheques(buildPreview(data, guessColumnMapping(data.headers)));
+    expect(imported.map(({ id, ...rest }) => rest)).toEqual(cheques.slice(0, 2).map(({ id, ...rest }) => ({ status: 'pending', ...rest })));
+  });
+
+  it('totals only the counted rows', () => {
+    const summary = exportCase().Sheets['خلاصه'];
+    expect(summary.B4.f).toMatch(/^SUMIFS\(/);
+    expect(summary.B4.v).toBe(1000);
+    expect(summary.B8.f).toMatch(/^COUNTIF\(/);
+    expect(summary.B8.v).toBe(1);
+  });
+});
@@ -0,0 +1,183 @@
+import jalaali from 'jalaali-js';
+import * as XLSX from 'xlsx';
+import { CHEQUE_DETAIL_FIELDS, chequeStatusLabels, chequeTypeLabels } from './cases';
+import { parseJalali } from './jalali';
+import type { ProcessedCheque, RasSummary } from './ras';
+import { formatAuditTime, type AuditRecord } from './audit';
+import { AGING_BUCKETS, agingBucketLabels, type LedgerReport } from './ledger';
+
+const CHEQUES_SHEET = 'چک‌ها';
+const SUMMARY_SHEET = 'خلاصه';
+const AGING_SHEET = 'گزارش سنی';
+const LEDGER_SHEET = 'دفتر طرف حساب';
+const DATE_FORMAT = 'yyyy-mm-dd';
+
+export type ExportInput = {
+  caseName: string;
+  baseDate: string;
+  processedCheques: ProcessedCheque[];
+  results: RasSummary;
+  audit: AuditRecord;
+};
+
+// Excel stores dates as days since 1899-12-30
+const jalaliToSerial = (dateStr: string) => {
+  const { jy, jm, jd } = parseJalali(dateStr);
+  const { gy, gm, gd } = jalaali.toGregorian(jy, jm, jd);
+  return (Date.UTC(gy, gm - 1, gd) - Date.UTC(1899, 11, 30)) / (24 * 60 * 60 * 1000);
+};
+
+// Amounts beyond Number.MAX_SAFE_INTEGER are written as text so they survive a re-import intact
+const amountCell = (amount: bigint): XLSX.CellObject => {
+  return amount <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? { t: 'n', v: Number(amount), z: '#,##0' }
+    : { t: 's', v: amount.toString() };
+};
+
+const dateCell = (serial: number): XLSX.CellObject => ({ t: 'n', v: serial, z: DATE_FORMAT });
+
+const formulaCell = (f: string, v: number, z?: string): XLSX.CellObject => ({ t: 'n', f, v, z });
+
+const COUNTED_LABEL = 'بله';
+
+const isCounted = (c: ProcessedCheque) => c.isDateValid && !c.isExcluded && c.parsedAmount > 0n && c.days !== '-';
+
+const hasData = (c: ProcessedCheque) => {
+  return !!(c.amount || c.date || CHEQUE_DETAIL_FIELDS.some(field => c[field]));
+};
+
+// Build a workbook with every cheque that has data and a summary sheet whose totals are
+// live formulas over the rows flagged as counted, so the average can be audited in Excel.
+// The cheque sheet uses the importer's headers, so the file can be loaded back without loss.
+export const buildWorkbook = ({ caseName, baseDate, processedCheques, results, audit }: ExportInput) => {
+  const listed = processedCheques.filter(hasData);
+  const lastRow = listed.length + 1;
+  const baseRef = `'${SUMMARY_SHEET}'!$B$3`;
+
+  // Undated or unreadable rows leave their date and day cells empty, which the formulas read as zero
+  const chequeRows: (XLSX.CellObject | null)[][] = [
+    ['ردیف', 'مبلغ', 'تاریخ', 'تاریخ وصول (میلادی)', 'روزها', 'نوع', 'وضعیت', 'طرف حساب', 'بانک', 'شعبه', 'سریال', 'شناسه صیادی', 'توضیحات', 'در محاسبه']
+      .map(v => ({ t: 's', v }) as XLSX.CellObject),
+    ...listed.map((c, i) => [
+      { t: 'n', v: i + 1 } as XLSX.CellObject,
+      c.amount ? amountCell(c.parsedAmount) : null,
+      { t: 's', v: c.date } as XLSX.CellObject,
+      c.isDateValid ? dateCell(jalaliToSerial(c.effectiveDate)) : null,
+      c.days !== '-' ? formulaCell(`D${i + 2}-${baseRef}`, Number(c.days)) : null,
+      { t: 's', v: chequeTypeLabels[c.type] } as XLSX.CellObject,
+      { t: 's', v: chequeStatusLabels[c.status ?? 'pending'] } as XLSX.CellObject,
+      ...[c.counterparty, c.bank, c.branch, c.serial, c.sayadId, c.note].map(v => ({ t: 's', v: v ?? '' }) as XLSX.CellObject),
+      { t: 's', v: isCounted(c) ? COUNTED_LABEL : 'خیر' } as XLSX.CellObject
+    ])
+  ];
+
+  const amounts = `'${CHEQUES_SHEET}'!B2:B${lastRow}`;
+  const days = `'${CHEQUES_SHEET}'!E2:E${lastRow}`;
+  const flags = `'${CHEQUES_SHEET}'!N2:N${lastRow}`;
+  const summaryRows: XLSX.CellObject[][] = [
+    [{ t: 's', v: 'نام پرونده' }, { t: 's', v: caseName }],
+    [{ t: 's', v: 'تاریخ مبدا' }, { t: 's', v: baseDate }],
+    [{ t: 's', v: 'تاریخ مبدا (میلادی)' }, dateCell(jalaliToSerial(baseDate))],
+    [{ t: 's', v: 'جمع کل مبالغ' }, formulaCell(`SUMIFS(${amounts},${flags},"${COUNTED_LABEL}")`, Number(results.totalAmount), '#,##0')],
+    [{ t: 's', v: 'میانگین وزنی روزها' }, formulaCell(`ROUND(SUMPRODUCT((${flags}="${COUNTED_LABEL}")*${amounts}*${days})/B4,0)`, results.averageDays)],
+    [{ t: 's', v: 'تاریخ راس (میلادی)' }, formulaCell('B3+B5', jalaliToSerial(results.rasDate), DATE_FORMAT)],
+    [{ t: 's', v: 'تاریخ راس' }, { t: 's', v: results.rasDate }],
+    [{ t: 's', v: 'تعداد چک' }, formulaCell(`COUNTIF(${flags},"${COUNTED_LABEL}")`, results.validChequesCount)],
+    [{ t: 's', v: 'تاریخ راس (روز کاری)' }, { t: 's', v: results.adjustedRasDate }],
+    [],
+    [{ t: 's', v: 'شناسه محاسبه (SHA-256)' }, { t: 's', v: audit.hash }],
+    [{ t: 's', v: 'زمان تولید' }, { t: 's', v: formatAuditTime(audit.createdAt) }],
+  ];
+
+  const wb = XLSX.utils.book_new();
+  const chequeSheet = XLSX.utils.aoa_to_sheet(chequeRows);
+  chequeSheet['!cols'] = [{ wch: 6 }, { wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 8 }, { wch: 10 }, { wch: 10 }, { wch: 20 }, { wch: 14 }, { wch: 14 }, { wch: 12 }, { wch: 20 }, { wch: 30 }, { wch: 10 }];
+  const summarySheet = XLSX.utils.aoa_to_sheet(summaryRows);
+  summarySheet['!cols'] = [{ wch: 22 }, { wch: 66 }];
+
+  XLSX.utils.book_append_sheet(wb, chequeSheet, CHEQUES_SHEET);
+  XLSX.utils.book_append_sheet(wb, summarySheet, SUMMARY_SHEET);
+  wb.Workbook = { Views: [{ RTL: true }] };
+  return wb;
+};
+
+export const downloadWorkbook = (input: ExportInput) => {
+  XLSX.writeFile(buildWorkbook(input), `${input.caseName || 'ras-giri'}.xlsx`);
+};
+
+export type LedgerExportInput = {
+  caseName: string;
+  baseDate: string;
+  report: LedgerReport;
+};
+
+const textCell = (v: string): XLSX.CellObject => ({ t: 's', v });
+
+// Aging sheet with one row per counterparty and SUM formulas for the balance and totals,
+// plus a ledger sheet whose running balance is a formula chained down each counterparty
+export const buildLedgerWorkbook = ({ caseName, baseDate, report }: LedgerExportInput) => {
+  const { ledgers } = report;
+  const lastRow = ledgers.length + 1;
+  // Bucket columns start at D; the balance column follows them
+  const bucketCols = AGING_BUCKETS.map((_, i) => XLSX.utils.encode_col(3 + i));
+  const balanceCol = XLSX.utils.encode_col(3 + AGING_BUCKETS.length);
+
+  const agingRows: XLSX.CellObject[][] = [
+    ['طرف حساب', 'دریافتی', 'پرداختی', ...AGING_BUCKETS.map(b => agingBucketLabels[b]), 'مانده', 'راس'].map(textCell),
+    ...ledgers.map((ledger, i) => [
+      textCell(ledger.label),
+      amountCell(ledger.received),
+      amountCell(ledger.paid),
+      ...AGING_BUCKETS.map(b => amountCell(ledger.aging[b])),
+      formulaCell(`B${i + 2}-C${i + 2}`, Number(ledger.balance), '#,##0'),
+      textCell(ledger.rasDate ?? '-')
+    ]),
+    [
+      textCell('جمع'),
+      ...['B', 'C', ...bucketCols, balanceCol].map((col, i) => {
+        const value = i === 0 ? ledgers.reduce((sum, l) => sum + l.received, 0n)
+          : i === 1 ? ledgers.reduce((sum, l) => sum + l.paid, 0n)
+          : i - 2 < AGING_BUCKETS.length ? report.aging[AGING_BUCKETS[i - 2]]
+          : report.balance;
+        return formulaCell(`SUM(${col}2:${col}${lastRow})`, Number(value), '#,##0');
+      }),
+      textCell('')
+    ],
+    [],
+    [textCell('نام پرونده'), textCell(caseName)],
+    [textCell('تاریخ مبدا'), textCell(baseDate)],
+  ];
+
+  const ledgerRows: XLSX.CellObject[][] = [
+    ['طرف حساب', 'تاریخ سررسید', 'نوع', 'وضعیت', 'مبلغ', 'مانده'].map(textCell)
+  ];
+  for (const ledger of ledgers) {
+    ledger.entries.forEach((entry, i) => {
+      const row = ledgerRows.length + 1;
+      ledgerRows.push([
+        textCell(ledger.label),
+        textCell(entry.cheque.date),
+        textCell(chequeTypeLabels[entry.cheque.type]),
+        textCell(chequeStatusLabels[entry.cheque.status ?? 'pending']),
+        amountCell(entry.signedAmount),
+        formulaCell(i === 0 ? `E${row}` : `F${row - 1}+E${row}`, Number(entry.balance), '#,##0')
+      ]);
+    });
+  }
+
+  const wb = XLSX.utils.book_new();
+  const agingSheet = XLSX.utils.aoa_to_sheet(agingRows);
+  agingSheet['!cols'] = [{ wch: 22 }, { wch: 16 }, { wch: 16 }, ...AGING_BUCKETS.map(() => ({ wch: 16 })), { wch: 16 }, { wch: 12 }];
+  const ledgerSheet = XLSX.utils.aoa_to_sheet(ledgerRows);
+  ledgerSheet['!cols'] = [{ wch: 22 }, { wch: 12 }, { wch: 10 }, { wch: 10 }, { wch: 18 }, { wch: 18 }];
+
+  XLSX.utils.book_append_sheet(wb, agingSheet, AGING_SHEET);
+  XLSX.utils.book_append_sheet(wb, ledgerSheet, LEDGER_SHEET);
+  wb.Workbook = { Views: [{ RTL: true }] };
+  return wb;
+};
+
+export const downloadLedgerWorkbook = (input: LedgerExportInput) => {
+  XLSX.writeFile(buildLedgerWorkbook(input), `${input.caseName || 'ras-giri'} - گزارش سنی.xlsx`);
+};
+
@@ -0,0 +1,56 @@
+import type { Cheque, ChequeStatus } from '../types';
+import { calculateRas, type ProcessedCheque, type RasSummary } from './ras';
+import type { BusinessDayRule } from './holidays';
+
+export type GroupBy = 'none' | 'counterparty' | 'bank';
+
+export type ChequeFilter = {
+  query: string;
+  status: ChequeStatus | 'all';
+};
+
+export type ChequeGroup = {
+  key: string;
+  label: string;
+  cheques: ProcessedCheque[];
+  summary: RasSummary | null;
+};
+
+const UNSPECIFIED = 'نامشخص';
+
+export const groupLabel = (cheque: Cheque, groupBy: GroupBy) => {
+  if (groupBy === 'none') return '';
+  return cheque[groupBy]?.trim() || UNSPECIFIED;
+};
+
+export const filterCheques = <T extends Cheque>(cheques: T[], { query, status }: ChequeFilter) => {
+  const q = query.trim().toLowerCase();
+  return cheques.filter(c => {
+    if (status !== 'all' && (c.status ?? 'pending') !== status) return false;
+    if (!q) return true;
+    return [c.counterparty, c.bank, c.branch, c.serial, c.sayadId, c.note]
+      .some(value => value?.toLowerCase().includes(q));
+  });
+};
+
+// Split cheques into groups, each with its own subtotal and ras from the engine
+export const groupCheques = (
+  cheques: ProcessedCheque[],
+  groupBy: GroupBy,
+  baseDate: string,
+  excludedStatuses: ChequeStatus[],
+  businessDays: BusinessDayRule | null
+): ChequeGroup[] => {
+  const groups = new Map<string, ProcessedCheque[]>();
+  for (const cheque of cheques) {
+    const label = groupLabel(cheque, groupBy);
+    groups.set(label, [...(groups.get(label) || []), cheque]);
+  }
+
+  return Array.from(groups, ([label, members]) => ({
+    key: label,
+    label,
+    cheques: members,
+    summary: calculateRas({ baseDate, cheques: members, excludedStatuses, businessDays }).results
+  }));
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, recordHistory, redoHistory, undoHistory } from './history';
+
+describe('recordHistory', () => {
+  it('coalesces edits to the same field within a second', () => {
+    let history = createHistory<string>();
+    history = recordHistory(history, '', 'amount:1', 0);
+    history = recordHistory(history, '1', 'amount:1', 500);
+    history = recordHistory(history, '12', 'amount:1', 1400);
+    expect(history.past).toEqual(['']);
+  });
+
+  it('starts a new step after a pause, for another field or for untagged changes', () => {
+    let history = createHistory<string>();
+    history = recordHistory(history, 'a', 'amount:1', 0);
+    history = recordHistory(history, 'b', 'amount:1', 1000);
+    history = recordHistory(history, 'c', 'date:1', 1100);
+    history = recordHistory(history, 'd', null, 1200);
+    history = recordHistory(history, 'e', null, 1300);
+    expect(history.past).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('keeps the last hundred steps', () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < 105; i++) history = recordHistory(history, i);
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0]).toBe(5);
+  });
+
+  it('clears the redo stack', () => {
+    const undone = undoHistory(recordHistory(createHistory<string>(), 'a'), 'b')!;
+    expect(undone.history.future).toEqual(['b']);
+    expect(recordHistory(undone.history, 'a').future).toEqual([]);
+  });
+});
+
+describe('undoHistory and redoHistory', () => {
+  it('walk back and forth through the steps', () => {
+    let history = createHistory<string>();
+    history = recordHistory(history, 'a');
+    history = recordHistory(history, 'b');
+
+    const first = undoHistory(history, 'c')!;
+    expect(first.state).toBe('b');
+    const second = undoHistory(first.history, first.state)!;
+    expect(second.state).toBe('a');
+    expect(undoHistory(second.history, second.state)).toBeNull();
+
+    const redone = redoHistory(second.history, second.state)!;
+    expect(redone.state).toBe('b');
+    expect(redoHistory(redoHistory(redone.history, redone.state)!.history, 'c')).toBeNull();
+  });
+
+  it('never coalesces an edit into a step that was undone', () => {
+    let history = recordHistory(createHistory<string>(), 'a', 'amount:1', 0);
+    history = undoHistory(history, 'b')!.history;
+    history = recordHistory(history, 'a', 'amount:1', 100);
+    expect(history.past).toEqual(['a']);
+  });
+});
@@ -0,0 +1,42 @@
+const HISTORY_LIMIT = 100;
+// Edits to the same field within this window collapse into one undo step
+const COALESCE_MS = 1000;
+
+export type History<T> = {
+  past: T[];
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+};
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [], lastKey: null, lastAt: 0 });
+
+// Push the state as it was before a change. Keystrokes in one field share a
+// `key`, so typing an amount is undone in one step rather than digit by digit.
+export const recordHistory = <T>(history: History<T>, previous: T, key: string | null = null, now = Date.now()): History<T> => {
+  if (key !== null && key === history.lastKey && now - history.lastAt < COALESCE_MS) {
+    return { ...history, future: [], lastAt: now };
+  }
+  return {
+    past: [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastKey: key,
+    lastAt: now
+  };
+};
+
+export const undoHistory = <T>(history: History<T>, current: T) => {
+  if (history.past.length === 0) return null;
+  return {
+    state: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastKey: null, lastAt: 0 }
+  };
+};
+
+export const redoHistory = <T>(history: History<T>, current: T) => {
+  if (history.future.length === 0) return null;
+  return {
+    state: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1), lastKey: null, lastAt: 0 }
+  };
+};
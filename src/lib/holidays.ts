@@ -0,0 +1,139 @@
+import type { Holiday, HolidayCalendar, RollDirection } from '../types';
+import { addJalaliDays, isValidJalali, jalaliWeekday } from './jalali';
+import { normalizeDate, toLatinDigits } from './normalize';
+
+const HOLIDAYS_KEY = 'ras-giri:holidays';
+
+export type BusinessDayRule = {
+  calendar: HolidayCalendar;
+  roll: RollDirection;
+};
+
+export const rollDirectionLabels: Record<RollDirection, string> = {
+  next: 'روز کاری بعد',
+  previous: 'روز کاری قبل',
+};
+
+// Official holidays fixed in the solar calendar. Lunar holidays move every year,
+// so they have to be imported from the yearly official calendar.
+const FIXED_HOLIDAYS: Holiday[] = [
+  { date: '01/01', name: 'نوروز' },
+  { date: '01/02', name: 'نوروز' },
+  { date: '01/03', name: 'نوروز' },
+  { date: '01/04', name: 'نوروز' },
+  { date: '01/12', name: 'روز جمهوری اسلامی' },
+  { date: '01/13', name: 'روز طبیعت' },
+  { date: '03/14', name: 'رحلت امام خمینی' },
+  { date: '03/15', name: 'قیام ۱۵ خرداد' },
+  { date: '11/22', name: 'پیروزی انقلاب اسلامی' },
+  { date: '12/29', name: 'ملی شدن صنعت نفت' },
+];
+
+export const defaultHolidayCalendar = (): HolidayCalendar => ({
+  weekendDays: [6],
+  holidays: [...FIXED_HOLIDAYS]
+});
+
+const isRecurring = (date: string) => /^\d{2}\/\d{2}$/.test(date);
+
+const isValidHolidayDate = (date: string) => {
+  if (!isRecurring(date)) return isValidJalali(date);
+  const [month, day] = date.split('/').map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= (month <= 6 ? 31 : 30);
+};
+
+export const findHoliday = (date: string, calendar: HolidayCalendar) => {
+  return calendar.holidays.find(h => h.date === date || h.date === date.slice(5));
+};
+
+export const isBusinessDay = (date: string, calendar: HolidayCalendar) => {
+  return !calendar.weekendDays.includes(jalaliWeekday(date)) && !findHoliday(date, calendar);
+};
+
+// Move a date onto the nearest business day in the given direction.
+// A calendar that closes every weekday has no business days, so the date is returned unchanged.
+export const rollToBusinessDay = (date: string, calendar: HolidayCalendar, direction: RollDirection) => {
+  const step = direction === 'next' ? 1 : -1;
+  let current = date;
+  for (let i = 0; i < 366; i++) {
+    if (isBusinessDay(current, calendar)) return current;
+    current = addJalaliDays(current, step);
+  }
+  return date;
+};
+
+const normalizeHolidayDate = (raw: unknown) => {
+  const value = toLatinDigits(String(raw ?? '')).trim().replace(/-/g, '/');
+  const recurring = value.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (recurring) return `${recurring[1].padStart(2, '0')}/${recurring[2].padStart(2, '0')}`;
+  return normalizeDate(raw).value;
+};
+
+const toHoliday = (raw: unknown): Holiday | null => {
+  const entry = typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : { date: raw };
+  const date = normalizeHolidayDate(entry.date);
+  if (!date || !isValidHolidayDate(date)) return null;
+  return { date, name: typeof entry.name === 'string' ? entry.name.trim() : '' };
+};
+
+// Read holidays from JSON (an array of dates or {date, name} objects, optionally under
+// a `holidays` key) or from CSV lines of `date,name`. Invalid rows are reported, not skipped silently.
+export const parseHolidayFile = (text: string, fileName: string) => {
+  let entries: unknown[];
+  if (/\.json$/i.test(fileName)) {
+    const parsed = JSON.parse(text);
+    entries = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.holidays) ? parsed.holidays : [];
+  } else {
+    entries = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      // Lines without any digit are headers or blanks
+      .filter(line => /\d/.test(toLatinDigits(line)))
+      .map(line => {
+        const [date, ...name] = line.split(/[,;\t]/);
+        return { date: date.trim(), name: name.join(' ').trim() };
+      });
+  }
+
+  const holidays: Holiday[] = [];
+  const invalid: string[] = [];
+  for (const entry of entries) {
+    const holiday = toHoliday(entry);
+    if (holiday) holidays.push(holiday);
+    else invalid.push(typeof entry === 'object' && entry !== null ? String((entry as { date?: unknown }).date ?? '') : String(entry));
+  }
+  return { holidays, invalid };
+};
+
+// Merge imported holidays into a calendar, keeping one entry per date
+export const mergeHolidays = (calendar: HolidayCalendar, holidays: Holiday[]): HolidayCalendar => {
+  const byDate = new Map(calendar.holidays.map(h => [h.date, h]));
+  for (const holiday of holidays) byDate.set(holiday.date, holiday);
+  return {
+    ...calendar,
+    holidays: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+  };
+};
+
+export const loadHolidayCalendar = (): HolidayCalendar => {
+  try {
+    const raw = localStorage.getItem(HOLIDAYS_KEY);
+    if (!raw) return defaultHolidayCalendar();
+    const parsed = JSON.parse(raw);
+    return {
+      weekendDays: Array.isArray(parsed.weekendDays) ? parsed.weekendDays.filter((d: unknown) => Number.isInteger(d)) : [6],
+      holidays: Array.isArray(parsed.holidays) ? parsed.holidays.map(toHoliday).filter((h: Holiday | null): h is Holiday => h !== null) : []
+    };
+  } catch (err) {
+    console.error(err);
+    return defaultHolidayCalendar();
+  }
+};
+
+export const saveHolidayCalendar = (calendar: HolidayCalendar) => {
+  try {
+    localStorage.setItem(HOLIDAYS_KEY, JSON.stringify(calendar));
+  } catch (err) {
+    console.error(err);
+  }
+};
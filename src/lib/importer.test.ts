@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { buildPreview, getSheetData, guessColumnMapping } from './importer';
+
+const workbookOf = (rows: unknown[][], firstRow = 0) => {
+  const wb = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([...Array.from({ length: firstRow }, () => []), ...rows]);
+  // Files saved by other tools often have a used range that starts below the first line
+  const range = XLSX.utils.decode_range(sheet['!ref']!);
+  sheet['!ref'] = XLSX.utils.encode_range({ ...range, s: { r: firstRow, c: 0 } });
+  XLSX.utils.book_append_sheet(wb, sheet, 'Sheet1');
+  return wb;
+};
+
+describe('getSheetData', () => {
+  it('drops blank rows but keeps the spreadsheet row numbers', () => {
+    const data = getSheetData(workbookOf([
+      ['مبلغ', 'تاریخ'],
+      ['1000', '1403/01/01'],
+      ['', ''],
+      [],
+      ['2000', '1403/02/01'],
+    ]), 'Sheet1');
+    expect(data.rows.map(r => r.rowNumber)).toEqual([2, 5]);
+  });
+
+  it('numbers rows from where the sheet starts', () => {
+    const data = getSheetData(workbookOf([['مبلغ', 'تاریخ'], ['1000', '1403/01/01']], 2), 'Sheet1');
+    expect(data.rows.map(r => r.rowNumber)).toEqual([4]);
+  });
+});
+
+describe('buildPreview', () => {
+  it('reports errors against the original row', () => {
+    const data = getSheetData(workbookOf([
+      ['مبلغ', 'تاریخ'],
+      ['1000', '1403/01/01'],
+      [],
+      ['abc', '1403/02/01'],
+    ]), 'Sheet1');
+    const preview = buildPreview(data, guessColumnMapping(data.headers));
+    expect(preview.map(r => [r.rowNumber, r.errors.length > 0])).toEqual([[2, false], [4, true]]);
+  });
+});
@@ -0,0 +1,159 @@
+import * as XLSX from 'xlsx';
+import type { Cheque, ChequeDetails, ChequeStatus, ChequeType } from '../types';
+import { chequeStatusLabels, chequeTypeLabels } from './cases';
+import { isValidSayadId, normalizeAmount, normalizeDate, toLatinDigits } from './normalize';
+
+export type ImportField = 'amount' | 'date' | 'type' | 'status' | 'counterparty' | 'bank' | 'branch' | 'serial' | 'sayadId' | 'note';
+
+// Column index for each field, or null when the field is not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type SheetRow = {
+  // 1-based row number in the spreadsheet, so errors point at the right line
+  rowNumber: number;
+  cells: unknown[];
+};
+
+export type SheetData = {
+  headers: string[];
+  rows: SheetRow[];
+};
+
+export type PreviewRow = {
+  rowNumber: number;
+  amount: string | null;
+  date: string | null;
+  type: ChequeType;
+  details: ChequeDetails;
+  errors: string[];
+};
+
+// Header names recognised for each field when guessing the mapping
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  amount: ['amount', 'مبلغ', 'mablagh', 'مبلغ (ریال)'],
+  date: ['date', 'تاریخ', 'tarikh', 'تاریخ سررسید', 'سررسید', 'تاریخ (شمسی)'],
+  type: ['type', 'نوع', 'noe'],
+  status: ['status', 'وضعیت'],
+  counterparty: ['counterparty', 'طرف حساب', 'صادرکننده', 'گیرنده', 'در وجه'],
+  bank: ['bank', 'بانک'],
+  branch: ['branch', 'شعبه', 'نام شعبه', 'کد شعبه'],
+  serial: ['serial', 'سریال', 'سریال چک', 'شماره چک'],
+  sayadId: ['sayad', 'sayadid', 'شناسه صیادی', 'صیادی', 'شماره صیادی'],
+  note: ['note', 'notes', 'توضیحات', 'یادداشت', 'شرح'],
+};
+
+// Free-text detail columns copied onto the cheque as-is
+const TEXT_FIELDS = ['counterparty', 'bank', 'branch', 'serial', 'note'] as const;
+
+const isCsv = (fileName: string) => /\.(csv|txt)$/i.test(fileName);
+
+// CSV is decoded as UTF-8 text so Persian headers survive; spreadsheets are read as binary
+export const readWorkbook = async (file: File) => {
+  if (isCsv(file.name)) {
+    return XLSX.read(await file.text(), { type: 'string', raw: true });
+  }
+  return XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+};
+
+// Read a sheet as a header row plus the non-empty data rows below it
+export const getSheetData = (wb: XLSX.WorkBook, sheetName: string): SheetData => {
+  const sheet = wb.Sheets[sheetName];
+  if (!sheet) return { headers: [], rows: [] };
+
+  // Blank rows are kept until numbering is done, so each row keeps its spreadsheet line
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: true });
+  const width = Math.max(headerRow.length, ...rows.map(r => r.length));
+  const headers = Array.from({ length: width }, (_, i) => String(headerRow[i] ?? '').trim() || `ستون ${i + 1}`);
+  // The sheet may not start on the first line; the header sits on its first used row
+  const headerLine = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+
+  return {
+    headers,
+    rows: rows
+      .map((cells, i) => ({ rowNumber: headerLine + i + 1, cells }))
+      .filter(row => row.cells.some(cell => String(cell).trim() !== ''))
+  };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (field: ImportField) => {
+    const index = headers.findIndex(h => FIELD_ALIASES[field].includes(h.toLowerCase()));
+    return index === -1 ? null : index;
+  };
+  return Object.fromEntries(
+    (Object.keys(FIELD_ALIASES) as ImportField[]).map(field => [field, find(field)])
+  ) as ColumnMapping;
+};
+
+const parseChequeType = (raw: unknown): ChequeType => {
+  const value = toLatinDigits(String(raw ?? '')).trim().toLowerCase();
+  return value === 'paid' || value === chequeTypeLabels.paid ? 'paid' : 'received';
+};
+
+const parseChequeStatus = (raw: unknown): ChequeStatus => {
+  const value = String(raw ?? '').trim().toLowerCase();
+  const match = (Object.keys(chequeStatusLabels) as ChequeStatus[])
+    .find(status => value === status || value === chequeStatusLabels[status]);
+  return match ?? 'pending';
+};
+
+const cellText = (row: unknown[], index: number | null) =>
+  index === null ? '' : toLatinDigits(String(row[index] ?? '')).trim();
+
+// Normalise and validate every row so problems are visible before anything is merged
+export const buildPreview = ({ rows }: SheetData, mapping: ColumnMapping): PreviewRow[] => {
+  return rows.map(({ rowNumber, cells: row }) => {
+    const errors: string[] = [];
+
+    let amount: string | null = null;
+    if (mapping.amount === null) {
+      errors.push('ستون مبلغ انتخاب نشده است');
+    } else {
+      const result = normalizeAmount(row[mapping.amount]);
+      if (result.error) errors.push(result.error);
+      amount = result.value;
+    }
+
+    let date: string | null = null;
+    if (mapping.date === null) {
+      errors.push('ستون تاریخ انتخاب نشده است');
+    } else {
+      const result = normalizeDate(row[mapping.date]);
+      if (result.error) errors.push(result.error);
+      date = result.value;
+    }
+
+    const details: ChequeDetails = {};
+    for (const field of TEXT_FIELDS) {
+      const value = cellText(row, mapping[field]);
+      if (value) details[field] = value;
+    }
+    const sayadId = cellText(row, mapping.sayadId).replace(/[\s-]/g, '');
+    if (sayadId) {
+      if (isValidSayadId(sayadId)) details.sayadId = sayadId;
+      else errors.push('شناسه صیادی نامعتبر است');
+    }
+    if (mapping.status !== null) details.status = parseChequeStatus(row[mapping.status]);
+
+    return {
+      rowNumber,
+      amount,
+      date,
+      type: mapping.type === null ? 'received' : parseChequeType(row[mapping.type]),
+      details,
+      errors
+    };
+  });
+};
+
+export const previewToCheques = (preview: PreviewRow[]): Cheque[] => {
+  return preview
+    .filter(row => row.errors.length === 0)
+    .map(row => ({
+      ...row.details,
+      id: Date.now().toString() + Math.random().toString(36).substring(7),
+      amount: row.amount!,
+      date: row.date!,
+      type: row.type
+    }));
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { addJalaliDays, canAddJalaliDays, dateToJalali, diffJalaliDays, isValidJalali, jalaliToDate } from './jalali';
+
+describe('isValidJalali', () => {
+  it('accepts Esfand 30 only in leap years', () => {
+    expect(isValidJalali('1403/12/30')).toBe(true);
+    expect(isValidJalali('1402/12/30')).toBe(false);
+  });
+
+  it('rejects malformed dates', () => {
+    expect(isValidJalali('1403/07/31')).toBe(false);
+    expect(isValidJalali('1403/13/01')).toBe(false);
+    expect(isValidJalali('14030101')).toBe(false);
+  });
+});
+
+describe('diffJalaliDays', () => {
+  it('counts across the Esfand boundary of leap and common years', () => {
+    expect(diffJalaliDays('1403/12/29', '1404/01/01')).toBe(2);
+    expect(diffJalaliDays('1402/12/29', '1403/01/01')).toBe(1);
+    expect(diffJalaliDays('1403/01/01', '1404/01/01')).toBe(366);
+    expect(diffJalaliDays('1402/01/01', '1403/01/01')).toBe(365);
+  });
+
+  it('counts across 31- and 30-day month ends', () => {
+    expect(diffJalaliDays('1403/06/31', '1403/07/01')).toBe(1);
+    expect(diffJalaliDays('1403/07/30', '1403/08/01')).toBe(1);
+    expect(diffJalaliDays('1403/01/01', '1403/07/01')).toBe(186);
+  });
+
+  it('is negative when the target is earlier', () => {
+    expect(diffJalaliDays('1403/01/10', '1403/01/01')).toBe(-9);
+  });
+});
+
+describe('addJalaliDays', () => {
+  it('lands on Esfand 30 only in leap years', () => {
+    expect(addJalaliDays('1403/12/29', 1)).toBe('1403/12/30');
+    expect(addJalaliDays('1402/12/29', 1)).toBe('1403/01/01');
+    expect(addJalaliDays('1404/01/01', -1)).toBe('1403/12/30');
+  });
+
+  it('rolls over month ends', () => {
+    expect(addJalaliDays('1403/06/31', 1)).toBe('1403/07/01');
+    expect(addJalaliDays('1403/07/30', 1)).toBe('1403/08/01');
+    expect(addJalaliDays('1403/08/01', -1)).toBe('1403/07/30');
+  });
+});
+
+describe('canAddJalaliDays', () => {
+  it('stops at the last year jalaali-js can convert', () => {
+    const lastDay = '3177/12/29';
+    expect(canAddJalaliDays(lastDay, 0)).toBe(true);
+    expect(canAddJalaliDays(lastDay, 1)).toBe(false);
+    expect(canAddJalaliDays('1403/01/01', 10_000_000_000n)).toBe(false);
+    expect(canAddJalaliDays('0001/01/01', -1)).toBe(false);
+  });
+});
+
+// Iran still observed DST in 1400: clocks went forward on 1400/01/02 and back on 1400/06/31
+describe('across a DST change', () => {
+  const withTimeZone = (tz: string, run: () => void) => {
+    const previous = process.env.TZ;
+    process.env.TZ = tz;
+    try {
+      run();
+    } finally {
+      // Assigning undefined would leave the literal zone "undefined" for later tests
+      if (previous === undefined) delete process.env.TZ;
+      else process.env.TZ = previous;
+    }
+  };
+
+  it('keeps whole days on both sides of the change', () => {
+    withTimeZone('Asia/Tehran', () => {
+      // Guard: the range really does span a change of UTC offset here
+      expect(jalaliToDate('1400/01/01').getTimezoneOffset()).not.toBe(jalaliToDate('1400/03/01').getTimezoneOffset());
+
+      expect(diffJalaliDays('1400/01/01', '1400/01/03')).toBe(2);
+      expect(diffJalaliDays('1400/01/01', '1400/07/01')).toBe(186);
+      expect(addJalaliDays('1400/01/01', 186)).toBe('1400/07/01');
+      expect(addJalaliDays('1400/06/30', 2)).toBe('1400/07/01');
+      expect(dateToJalali(jalaliToDate('1400/01/02'))).toBe('1400/01/02');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import jalaali from 'jalaali-js';
+
+export type JalaliParts = {
+  jy: number;
+  jm: number;
+  jd: number;
+};
+
+// Split a Jalali string (YYYY/MM/DD) into its numeric parts
+export const parseJalali = (dateStr: string): JalaliParts => {
+  const [jy, jm, jd] = dateStr.split('/').map(part => parseInt(part, 10));
+  return { jy, jm, jd };
+};
+
+// Format Jalali parts as a zero-padded YYYY/MM/DD string
+export const formatJalali = ({ jy, jm, jd }: JalaliParts) => {
+  return `${jy.toString().padStart(4, '0')}/${jm.toString().padStart(2, '0')}/${jd.toString().padStart(2, '0')}`;
+};
+
+// Validate a Jalali date string (YYYY/MM/DD), including Esfand 30 in leap years
+export const isValidJalali = (dateStr: string) => {
+  if (dateStr.split('/').length !== 3) return false;
+  const { jy, jm, jd } = parseJalali(dateStr);
+  return jalaali.isValidJalaaliDate(jy, jm, jd);
+};
+
+// Convert a Jalali string to a JS Date at local midnight
+export const jalaliToDate = (dateStr: string) => {
+  const { jy, jm, jd } = parseJalali(dateStr);
+  const { gy, gm, gd } = jalaali.toGregorian(jy, jm, jd);
+  return new Date(gy, gm - 1, gd);
+};
+
+// Convert a JS Date to a Jalali string using its local calendar day
+export const dateToJalali = (date: Date) => {
+  return formatJalali(jalaali.toJalaali(date.getFullYear(), date.getMonth() + 1, date.getDate()));
+};
+
+export const getTodayJalali = () => {
+  return dateToJalali(new Date());
+};
+
+// Auto-format date input (YYYY/MM/DD)
+export const formatJalaliInput = (value: string) => {
+  let val = value.replace(/\D/g, '');
+  if (val.length > 4) {
+    val = val.slice(0, 4) + '/' + val.slice(4);
+  }
+  if (val.length > 7) {
+    val = val.slice(0, 7) + '/' + val.slice(7, 9);
+  }
+  return val;
+};
+
+// Julian day number of a Jalali date. Day arithmetic is done on these integers
+// rather than on Date timestamps, so DST and timezone shifts cannot skew it.
+export const jalaliToDayNumber = (dateStr: string) => {
+  const { jy, jm, jd } = parseJalali(dateStr);
+  return jalaali.j2d(jy, jm, jd);
+};
+
+export const dayNumberToJalali = (jdn: number) => {
+  return formatJalali(jalaali.d2j(jdn));
+};
+
+// Number of calendar days from `from` to `to` (negative when `to` is earlier)
+export const diffJalaliDays = (from: string, to: string) => {
+  return jalaliToDayNumber(to) - jalaliToDayNumber(from);
+};
+
+export const addJalaliDays = (dateStr: string, days: number) => {
+  return dayNumberToJalali(jalaliToDayNumber(dateStr) + days);
+};
+
+// Years jalaali-js can convert; it throws outside them
+export const MIN_JALALI_YEAR = 1;
+export const MAX_JALALI_YEAR = 3177;
+const MIN_DAY_NUMBER = BigInt(jalaali.j2d(MIN_JALALI_YEAR, 1, 1));
+const MAX_DAY_NUMBER = BigInt(jalaali.j2d(MAX_JALALI_YEAR, 12, jalaali.jalaaliMonthLength(MAX_JALALI_YEAR, 12)));
+
+// Whether `days` from a date still lands inside the supported years, so addJalaliDays will not throw.
+// Takes a BigInt so offsets computed from money totals can be checked before they are narrowed.
+export const canAddJalaliDays = (dateStr: string, days: number | bigint) => {
+  const target = BigInt(jalaliToDayNumber(dateStr)) + BigInt(days);
+  return target >= MIN_DAY_NUMBER && target <= MAX_DAY_NUMBER;
+};
+
+export const JALALI_MONTH_NAMES = [
+  'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
+  'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
+];
+
+// Weekday names starting from Saturday, the first day of the Iranian week
+export const JALALI_WEEKDAY_NAMES = ['شنبه', 'یکشنبه', 'دوشنبه', 'سه‌شنبه', 'چهارشنبه', 'پنجشنبه', 'جمعه'];
+
+export const jalaliMonthLength = (jy: number, jm: number) => {
+  return jalaali.jalaaliMonthLength(jy, jm);
+};
+
+// Weekday index with Saturday as 0 and Friday as 6 (Julian day numbers start on a Monday)
+export const jalaliWeekday = (dateStr: string) => {
+  return (jalaliToDayNumber(dateStr) + 2) % 7;
+};
+
+// Shift a year/month pair by whole months, wrapping across years
+export const addJalaliMonths = ({ jy, jm }: Pick<JalaliParts, 'jy' | 'jm'>, months: number) => {
+  const index = jy * 12 + (jm - 1) + months;
+  return { jy: Math.floor(index / 12), jm: (index % 12) + 1 };
+};
+
+// Same day of month N months later, clamped to the target month's length (e.g. 31 Shahrivar + 1 → 30 Mehr)
+export const addJalaliMonthsToDate = (dateStr: string, months: number) => {
+  const { jd, ...month } = parseJalali(dateStr);
+  const { jy, jm } = addJalaliMonths(month, months);
+  return formatJalali({ jy, jm, jd: Math.min(jd, jalaliMonthLength(jy, jm)) });
+};
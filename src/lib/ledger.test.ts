@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque, ChequeStatus } from '../types';
+import { agingBucket, buildLedger } from './ledger';
+import { calculateRas } from './ras';
+
+const base = '1403/01/01';
+
+const cheque = (id: string, amount: string, date: string, extra: Partial<Cheque> = {}): Cheque => ({
+  id,
+  amount,
+  date,
+  type: 'received',
+  counterparty: 'الف',
+  ...extra
+});
+
+const ledgerOf = (cheques: Cheque[], excludedStatuses: ChequeStatus[] = []) => {
+  const { processedCheques } = calculateRas({ baseDate: base, cheques, excludedStatuses });
+  return buildLedger(processedCheques, base, excludedStatuses, null);
+};
+
+describe('agingBucket', () => {
+  it('splits at 30, 60 and 90 days', () => {
+    expect([-1, 0, 30, 31, 60, 61, 90, 91].map(agingBucket)).toEqual(['overdue', '0-30', '0-30', '31-60', '31-60', '61-90', '61-90', '90+']);
+  });
+});
+
+describe('buildLedger', () => {
+  it('keeps a running balance in due-date order', () => {
+    const report = ledgerOf([
+      cheque('1', '300', '1403/02/01'),
+      cheque('2', '100', '1403/01/11', { type: 'paid' }),
+    ]);
+    const [ledger] = report.ledgers;
+    expect(ledger.entries.map(e => [e.cheque.id, e.balance])).toEqual([['2', -100n], ['1', 200n]]);
+    expect([ledger.received, ledger.paid, ledger.balance]).toEqual([300n, 100n, 200n]);
+  });
+
+  it('ages only outstanding cheques, signed by direction', () => {
+    const report = ledgerOf([
+      cheque('1', '100', '1402/12/20'),
+      cheque('2', '200', '1403/01/21', { type: 'paid' }),
+      cheque('3', '400', '1403/03/01', { status: 'cleared' }),
+    ]);
+    expect(report.aging).toEqual({ 'overdue': 100n, '0-30': -200n, '31-60': 0n, '61-90': 0n, '90+': 0n });
+  });
+
+  it('still ages bounced cheques excluded from the ras, but leaves them out of its ras', () => {
+    const report = ledgerOf([
+      cheque('1', '100', '1403/01/11'),
+      cheque('2', '100', '1403/01/21', { status: 'bounced' }),
+    ], ['bounced']);
+    const [ledger] = report.ledgers;
+    expect(ledger.entries).toHaveLength(2);
+    expect(ledger.aging['0-30']).toBe(200n);
+    expect(ledger.rasDate).toBe('1403/01/11');
+  });
+
+  it('groups by counterparty and totals the groups', () => {
+    const report = ledgerOf([
+      cheque('1', '100', '1403/01/11', { counterparty: 'ب' }),
+      cheque('2', '50', '1403/01/11', { counterparty: 'الف', type: 'paid' }),
+      cheque('3', '', '1403/01/11', { counterparty: 'پ' }),
+    ]);
+    expect(report.ledgers.map(l => l.label)).toEqual(['الف', 'ب']);
+    expect(report.balance).toBe(50n);
+    expect(report.aging['0-30']).toBe(50n);
+  });
+});
@@ -0,0 +1,117 @@
+import type { ChequeStatus } from '../types';
+import { diffJalaliDays } from './jalali';
+import { calculateRas, type ProcessedCheque } from './ras';
+import { groupLabel } from './grouping';
+import type { BusinessDayRule } from './holidays';
+
+export type AgingBucket = 'overdue' | '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['overdue', '0-30', '31-60', '61-90', '90+'];
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  'overdue': 'سررسید گذشته',
+  '0-30': '۰ تا ۳۰ روز',
+  '31-60': '۳۱ تا ۶۰ روز',
+  '61-90': '۶۱ تا ۹۰ روز',
+  '90+': 'بیش از ۹۰ روز',
+};
+
+// Cleared and cancelled cheques are settled, so only these still count towards aging
+const OUTSTANDING_STATUSES: ChequeStatus[] = ['pending', 'bounced'];
+
+// Received cheques are owed to us (+), paid ones are owed by us (-)
+export type LedgerEntry = {
+  cheque: ProcessedCheque;
+  signedAmount: bigint;
+  balance: bigint;
+};
+
+export type CounterpartyLedger = {
+  label: string;
+  entries: LedgerEntry[];
+  received: bigint;
+  paid: bigint;
+  balance: bigint;
+  // Net outstanding amount per bucket, signed like the balance
+  aging: Record<AgingBucket, bigint>;
+  // Net ras of this counterparty's cheques, on a business day when that mode is on
+  rasDate: string | null;
+};
+
+export type LedgerReport = {
+  ledgers: CounterpartyLedger[];
+  aging: Record<AgingBucket, bigint>;
+  balance: bigint;
+};
+
+const emptyAging = (): Record<AgingBucket, bigint> => ({ 'overdue': 0n, '0-30': 0n, '31-60': 0n, '61-90': 0n, '90+': 0n });
+
+// Days from baseDate to the due date; anything before baseDate is overdue
+export const agingBucket = (days: number): AgingBucket => {
+  if (days < 0) return 'overdue';
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+};
+
+// Statuses left out of the ras still belong in the ledger; a bounced cheque is still owed
+const isListed = (c: ProcessedCheque) => c.isDateValid && c.parsedAmount > 0n;
+
+// One ledger per counterparty with a running balance in due-date order, an aging
+// breakdown of what is still outstanding and the counterparty's own ras, which alone
+// leaves out the excluded statuses
+export const buildLedger = (
+  processedCheques: ProcessedCheque[],
+  baseDate: string,
+  excludedStatuses: ChequeStatus[],
+  businessDays: BusinessDayRule | null
+): LedgerReport => {
+  const groups = new Map<string, ProcessedCheque[]>();
+  for (const cheque of processedCheques.filter(isListed)) {
+    const label = groupLabel(cheque, 'counterparty');
+    groups.set(label, [...(groups.get(label) || []), cheque]);
+  }
+
+  const ledgers = Array.from(groups, ([label, members]): CounterpartyLedger => {
+    // Array.prototype.sort is stable, so same-day cheques keep their list order
+    const sorted = [...members].sort((a, b) => a.date.localeCompare(b.date));
+    const aging = emptyAging();
+    let balance = 0n;
+    let received = 0n;
+    let paid = 0n;
+
+    const entries = sorted.map(cheque => {
+      const signedAmount = cheque.type === 'paid' ? -cheque.parsedAmount : cheque.parsedAmount;
+      balance += signedAmount;
+      if (cheque.type === 'paid') paid += cheque.parsedAmount;
+      else received += cheque.parsedAmount;
+      if (OUTSTANDING_STATUSES.includes(cheque.status ?? 'pending')) {
+        aging[agingBucket(diffJalaliDays(baseDate, cheque.date))] += signedAmount;
+      }
+      return { cheque, signedAmount, balance };
+    });
+
+    const { results, settlement } = calculateRas({ baseDate, cheques: members, excludedStatuses, businessDays });
+    return {
+      label,
+      entries,
+      received,
+      paid,
+      balance,
+      aging,
+      rasDate: settlement ? settlement.netAdjustedRasDate : results?.adjustedRasDate ?? null
+    };
+  });
+
+  const aging = emptyAging();
+  for (const ledger of ledgers) {
+    for (const bucket of AGING_BUCKETS) aging[bucket] += ledger.aging[bucket];
+  }
+
+  return {
+    ledgers: ledgers.sort((a, b) => a.label.localeCompare(b.label, 'fa')),
+    aging,
+    balance: ledgers.reduce((sum, l) => sum + l.balance, 0n)
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { amountInWords, formatAmount, formatInUnit, localizeDigits, numberToWords, parseUnitAmount, unitToRial } from './money';
+
+describe('numberToWords', () => {
+  it('joins groups and digits with و', () => {
+    expect(numberToWords(0n)).toBe('صفر');
+    expect(numberToWords(1001n)).toBe('یک هزار و یک');
+    expect(numberToWords(115n)).toBe('صد و پانزده');
+    expect(numberToWords(250000n)).toBe('دویست و پنجاه هزار');
+    expect(numberToWords(1002003n)).toBe('یک میلیون و دو هزار و سه');
+  });
+
+  it('skips empty groups and handles negatives', () => {
+    expect(numberToWords(5000000000n)).toBe('پنج میلیارد');
+    expect(numberToWords(-12n)).toBe('منفی دوازده');
+  });
+
+  it('falls back to digits past the largest scale', () => {
+    expect(numberToWords(10n ** 21n)).toBe('1,000,000,000,000,000,000,000');
+  });
+});
+
+describe('amountInWords', () => {
+  it('spells toman with the odd rial separately', () => {
+    expect(amountInWords(500000000n, 'toman')).toBe('پنجاه میلیون تومان');
+    expect(amountInWords(15n, 'toman')).toBe('یک تومان و پنج ریال');
+    expect(amountInWords(7n, 'toman')).toBe('هفت ریال');
+    expect(amountInWords(1001n, 'rial')).toBe('یک هزار و یک ریال');
+  });
+});
+
+describe('formatInUnit', () => {
+  it('groups rial amounts exactly, past Number.MAX_SAFE_INTEGER', () => {
+    expect(formatInUnit('9007199254740993', 'rial')).toBe('9,007,199,254,740,993');
+    expect(formatInUnit(-1234n, 'rial')).toBe('-1,234');
+  });
+
+  it('shows toman with the odd rial as one decimal', () => {
+    expect(formatInUnit(12345n, 'toman')).toBe('1,234.5');
+    expect(formatInUnit(12340n, 'toman')).toBe('1,234');
+    expect(formatInUnit(-5n, 'toman')).toBe('-0.5');
+  });
+
+  it('is empty for zero, except a typed zero', () => {
+    expect(formatInUnit(0n, 'rial')).toBe('');
+    expect(formatInUnit('', 'rial')).toBe('');
+    expect(formatInUnit('0', 'toman')).toBe('0');
+  });
+
+  it('localises digits and separators', () => {
+    expect(formatAmount(12345n, { unit: 'toman', digits: 'persian' })).toBe('۱٬۲۳۴٫۵');
+    expect(localizeDigits('1,234.5', 'arabic')).toBe('١٬٢٣٤٫٥');
+  });
+});
+
+describe('toman and rial conversion', () => {
+  it('converts typed toman to rial', () => {
+    expect(unitToRial('1500', 'toman')).toBe('15000');
+    expect(unitToRial('1500', 'rial')).toBe('1500');
+    expect(unitToRial('', 'toman')).toBe('');
+  });
+
+  it('reads typed amounts in the display unit', () => {
+    expect(parseUnitAmount('۱٬۲۳۴٫۵', 'toman')).toBe('12345');
+    expect(parseUnitAmount('50m', 'toman')).toBe('500000000');
+    expect(parseUnitAmount('2.5 میلیون', 'rial')).toBe('2500000');
+    expect(parseUnitAmount('abc', 'rial')).toBeNull();
+  });
+});
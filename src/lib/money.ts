@@ -0,0 +1,138 @@
+import type { AmountUnit, DigitStyle, DisplaySettings } from '../types';
+import { normalizeAmount, toLatinDigits } from './normalize';
+
+const DISPLAY_KEY = 'ras-giri:display';
+
+export const amountUnitLabels: Record<AmountUnit, string> = {
+  rial: 'ریال',
+  toman: 'تومان',
+};
+
+export const digitStyleLabels: Record<DigitStyle, string> = {
+  latin: '123',
+  persian: '۱۲۳',
+  arabic: '١٢٣',
+};
+
+const DIGIT_SETS: Record<Exclude<DigitStyle, 'latin'>, string> = {
+  persian: '۰۱۲۳۴۵۶۷۸۹',
+  arabic: '٠١٢٣٤٥٦٧٨٩',
+};
+
+export const defaultDisplaySettings = (): DisplaySettings => ({ unit: 'rial', digits: 'latin' });
+
+// Swap Latin digits for the chosen script, along with the matching separators
+export const localizeDigits = (text: string, digits: DigitStyle) => {
+  if (digits === 'latin') return text;
+  const set = DIGIT_SETS[digits];
+  return text
+    .replace(/(\d),(?=\d)/g, '$1٬')
+    .replace(/(\d)\.(?=\d)/g, '$1٫')
+    .replace(/\d/g, d => set[Number(d)]);
+};
+
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+// A rial amount in the display unit with thousands separators, in Latin digits.
+// A toman value keeps its odd rial as a single decimal. Empty for zero, like formatNumber.
+export const formatInUnit = (rial: string | bigint, unit: AmountUnit) => {
+  if (typeof rial === 'string' && !/^-?\d*$/.test(rial)) return rial;
+  const value = typeof rial === 'bigint' ? rial : BigInt(rial || 0);
+  if (value === 0n) return typeof rial === 'string' && rial ? '0' : '';
+
+  const sign = value < 0n ? '-' : '';
+  const abs = value < 0n ? -value : value;
+  if (unit === 'rial') return sign + groupThousands(abs.toString());
+  const remainder = abs % 10n;
+  return sign + groupThousands((abs / 10n).toString()) + (remainder ? `.${remainder}` : '');
+};
+
+export const formatAmount = (rial: string | bigint, display: DisplaySettings) => {
+  return localizeDigits(formatInUnit(rial, display.unit), display.digits);
+};
+
+// A whole number typed in the display unit, as rial digits
+export const unitToRial = (digits: string, unit: AmountUnit) => {
+  if (!digits) return '';
+  return unit === 'toman' ? (BigInt(digits) * 10n).toString() : BigInt(digits).toString();
+};
+
+// Read a typed amount in the display unit: plain or shorthand (50m, ۵۰ میلیون) numbers,
+// and in toman a single decimal for the odd rial. Returns rial digits, or null if unreadable.
+export const parseUnitAmount = (text: string, unit: AmountUnit) => {
+  const str = toLatinDigits(text).replace(/[,٬،\s]/g, '').replace(/تومان|toman/gi, '');
+  const decimal = unit === 'toman' ? str.match(/^(\d+)[.٫/](\d)$/) : null;
+  if (decimal) return BigInt(decimal[1] + decimal[2]).toString();
+
+  const { value } = normalizeAmount(str);
+  return value === null ? null : unitToRial(value, unit);
+};
+
+const ONES = ['', 'یک', 'دو', 'سه', 'چهار', 'پنج', 'شش', 'هفت', 'هشت', 'نه'];
+const TEENS = ['ده', 'یازده', 'دوازده', 'سیزده', 'چهارده', 'پانزده', 'شانزده', 'هفده', 'هجده', 'نوزده'];
+const TENS = ['', '', 'بیست', 'سی', 'چهل', 'پنجاه', 'شصت', 'هفتاد', 'هشتاد', 'نود'];
+const HUNDREDS = ['', 'صد', 'دویست', 'سیصد', 'چهارصد', 'پانصد', 'ششصد', 'هفتصد', 'هشتصد', 'نهصد'];
+const SCALES = ['', 'هزار', 'میلیون', 'میلیارد', 'هزار میلیارد', 'میلیون میلیارد'];
+
+const tripleToWords = (n: number) => {
+  const parts = [HUNDREDS[Math.floor(n / 100)]];
+  const rest = n % 100;
+  if (rest >= 10 && rest < 20) {
+    parts.push(TEENS[rest - 10]);
+  } else {
+    parts.push(TENS[Math.floor(rest / 10)], ONES[rest % 10]);
+  }
+  return parts.filter(Boolean).join(' و ');
+};
+
+// Spell out a whole number the way amounts are written on cheques and settlement letters
+export const numberToWords = (value: bigint): string => {
+  if (value === 0n) return 'صفر';
+  if (value < 0n) return `منفی ${numberToWords(-value)}`;
+
+  const groups: string[] = [];
+  let rest = value;
+  for (let scale = 0; rest > 0n; scale++) {
+    const triple = Number(rest % 1000n);
+    rest /= 1000n;
+    if (triple === 0) continue;
+    if (scale >= SCALES.length) return groupThousands(value.toString());
+    groups.unshift(scale === 0 ? tripleToWords(triple) : `${tripleToWords(triple)} ${SCALES[scale]}`);
+  }
+  return groups.join(' و ');
+};
+
+// e.g. "پنجاه میلیون تومان"; an odd rial in toman mode is spelled out separately
+export const amountInWords = (rial: bigint, unit: AmountUnit) => {
+  if (unit === 'rial') return `${numberToWords(rial)} ریال`;
+  const abs = rial < 0n ? -rial : rial;
+  const toman = abs / 10n;
+  const remainder = abs % 10n;
+  const sign = rial < 0n ? 'منفی ' : '';
+  if (toman === 0n && remainder > 0n) return `${sign}${numberToWords(remainder)} ریال`;
+  const words = `${sign}${numberToWords(toman)} تومان`;
+  return remainder ? `${words} و ${numberToWords(remainder)} ریال` : words;
+};
+
+export const loadDisplaySettings = (): DisplaySettings => {
+  try {
+    const raw = localStorage.getItem(DISPLAY_KEY);
+    if (!raw) return defaultDisplaySettings();
+    const parsed = JSON.parse(raw);
+    return {
+      unit: parsed.unit in amountUnitLabels ? parsed.unit : 'rial',
+      digits: parsed.digits in digitStyleLabels ? parsed.digits : 'latin'
+    };
+  } catch (err) {
+    console.error(err);
+    return defaultDisplaySettings();
+  }
+};
+
+export const saveDisplaySettings = (display: DisplaySettings) => {
+  try {
+    localStorage.setItem(DISPLAY_KEY, JSON.stringify(display));
+  } catch (err) {
+    console.error(err);
+  }
+};
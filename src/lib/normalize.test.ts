@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDate } from './normalize';
+
+describe('normalizeDate', () => {
+  it('reads Jalali strings in any digits', () => {
+    expect(normalizeDate('1403/1/5')).toEqual({ value: '1403/01/05', error: null });
+    expect(normalizeDate('۱۴۰۳-۰۲-۰۱')).toEqual({ value: '1403/02/01', error: null });
+    expect(normalizeDate('14030101')).toEqual({ value: '1403/01/01', error: null });
+  });
+
+  it('converts Gregorian strings', () => {
+    expect(normalizeDate('2024-03-20')).toEqual({ value: '1403/01/01', error: null });
+  });
+
+  it('returns an error for Gregorian years outside the calendar instead of throwing', () => {
+    expect(normalizeDate('9999-12-31').error).toBeTruthy();
+    expect(normalizeDate('9999/01/01').error).toBeTruthy();
+    expect(normalizeDate(new Date(9999, 0, 1)).error).toBeTruthy();
+  });
+
+  it('reads yyyymmdd numbers as Jalali dates', () => {
+    expect(normalizeDate(14030101)).toEqual({ value: '1403/01/01', error: null });
+    expect(normalizeDate(14031330).error).toBeTruthy();
+  });
+
+  it('reads whole numbers as Excel serials and rejects fractions', () => {
+    // Serial 45292 is 2024-01-01
+    expect(normalizeDate(45292)).toEqual({ value: '1402/10/11', error: null });
+    expect(normalizeDate(1403.0101).error).toBeTruthy();
+    expect(normalizeDate(12.5).error).toBeTruthy();
+  });
+
+  it('zero-pads the year', () => {
+    expect(normalizeDate('0001/01/01')).toEqual({ value: '0001/01/01', error: null });
+    expect(normalizeDate('0000/01/01').error).toBeTruthy();
+  });
+});
@@ -0,0 +1,108 @@
+import jalaali from 'jalaali-js';
+import * as XLSX from 'xlsx';
+import { MAX_JALALI_YEAR, MIN_JALALI_YEAR, formatJalali, isValidJalali } from './jalali';
+
+const PERSIAN_DIGITS = '۰۱۲۳۴۵۶۷۸۹';
+const ARABIC_DIGITS = '٠١٢٣٤٥٦٧٨٩';
+
+// Replace Persian and Arabic-Indic digits with their Latin equivalents
+export const toLatinDigits = (str: string) => {
+  return str.replace(/[۰-۹٠-٩]/g, ch => {
+    const persian = PERSIAN_DIGITS.indexOf(ch);
+    return (persian !== -1 ? persian : ARABIC_DIGITS.indexOf(ch)).toString();
+  });
+};
+
+export type Normalized = { value: string; error: null } | { value: null; error: string };
+
+// Powers of ten for the shorthand suffixes people type, e.g. 50m or ۵۰ میلیون
+const AMOUNT_SUFFIXES: Record<string, number> = {
+  k: 3,
+  'هزار': 3,
+  m: 6,
+  'میلیون': 6,
+  b: 9,
+  'میلیارد': 9,
+};
+
+// Expand "50m", "1.5b" or "2/5میلیارد" to whole rials (Persian text often uses / or ٫ as the
+// decimal mark); null when the text isn't shorthand. Works on digit strings so large amounts stay exact.
+const parseAmountShorthand = (str: string) => {
+  const match = str.match(/^(\d+)(?:[.٫/](\d+))?(k|m|b|هزار|میلیون|میلیارد)$/i);
+  if (!match) return null;
+  const [, whole, fraction = '', suffix] = match;
+  const zeros = AMOUNT_SUFFIXES[suffix.toLowerCase()];
+  if (fraction.length > zeros) return null;
+  return BigInt(whole + fraction.padEnd(zeros, '0')).toString();
+};
+
+// Normalise an imported amount cell to a plain digit string
+export const normalizeAmount = (raw: unknown): Normalized => {
+  if (typeof raw === 'number') {
+    if (!Number.isFinite(raw) || raw <= 0) return { value: null, error: 'مبلغ باید بیشتر از صفر باشد' };
+    return { value: BigInt(Math.round(raw)).toString(), error: null };
+  }
+
+  const str = toLatinDigits(String(raw ?? ''))
+    .replace(/[,٬،\s]/g, '')
+    .replace(/ریال|rial/gi, '');
+  if (!str) return { value: null, error: 'مبلغ وارد نشده است' };
+
+  const shorthand = parseAmountShorthand(str);
+  if (shorthand !== null) {
+    return shorthand === '0' ? { value: null, error: 'مبلغ باید بیشتر از صفر باشد' } : { value: shorthand, error: null };
+  }
+  if (!/^\d+$/.test(str)) return { value: null, error: 'مبلغ نامعتبر است' };
+  if (/^0+$/.test(str)) return { value: null, error: 'مبلغ باید بیشتر از صفر باشد' };
+  return { value: str.replace(/^0+/, ''), error: null };
+};
+
+// Gregorian years whose every day converts to a supported Jalali year; jalaali-js throws outside them
+const MIN_GREGORIAN_YEAR = MIN_JALALI_YEAR + 622;
+const MAX_GREGORIAN_YEAR = MAX_JALALI_YEAR + 621;
+
+const gregorianToJalali = (gy: number, gm: number, gd: number): Normalized => {
+  if (gy < MIN_GREGORIAN_YEAR || gy > MAX_GREGORIAN_YEAR) return { value: null, error: 'سال تاریخ خارج از بازه پشتیبانی است' };
+  const date = new Date(gy, gm - 1, gd);
+  if (date.getFullYear() !== gy || date.getMonth() !== gm - 1 || date.getDate() !== gd) {
+    return { value: null, error: 'تاریخ میلادی نامعتبر است' };
+  }
+  return { value: formatJalali(jalaali.toJalaali(gy, gm, gd)), error: null };
+};
+
+// Normalise an imported date cell to a Jalali YYYY/MM/DD string. Accepts Jalali
+// and Gregorian strings (in any digits), JS Dates and Excel date serials.
+export const normalizeDate = (raw: unknown): Normalized => {
+  if (raw instanceof Date) {
+    if (isNaN(raw.getTime())) return { value: null, error: 'تاریخ نامعتبر است' };
+    return gregorianToJalali(raw.getFullYear(), raw.getMonth() + 1, raw.getDate());
+  }
+
+  if (typeof raw === 'number') {
+    // Iranian sheets often hold Jalali dates as yyyymmdd numbers, e.g. 14030101
+    if (Number.isInteger(raw) && raw >= 10000101 && raw <= 99991231) return normalizeDate(String(raw));
+    if (!Number.isInteger(raw)) return { value: null, error: 'تاریخ نامعتبر است' };
+    const parsed = XLSX.SSF.parse_date_code(raw);
+    if (!parsed || !parsed.y) return { value: null, error: 'تاریخ نامعتبر است' };
+    return gregorianToJalali(parsed.y, parsed.m, parsed.d);
+  }
+
+  const str = toLatinDigits(String(raw ?? '')).trim();
+  if (!str) return { value: null, error: 'تاریخ وارد نشده است' };
+
+  const match = str.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/) || str.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return { value: null, error: 'قالب تاریخ شناخته نشد' };
+
+  const [y, m, d] = match.slice(1).map(Number);
+  // Jalali years in practical use are far below 1700, Gregorian ones far above
+  if (y > 1700) return gregorianToJalali(y, m, d);
+
+  if (y < MIN_JALALI_YEAR) return { value: null, error: 'سال تاریخ خارج از بازه پشتیبانی است' };
+  const value = formatJalali({ jy: y, jm: m, jd: d });
+  if (!isValidJalali(value)) return { value: null, error: 'تاریخ شمسی نامعتبر است' };
+  return { value, error: null };
+};
+
+// Sayad IDs are 16 digits. The central bank does not publish a checksum for
+// them, so only the format is checked here.
+export const isValidSayadId = (value: string) => /^\d{16}$/.test(toLatinDigits(value).replace(/[\s-]/g, ''));
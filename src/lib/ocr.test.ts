@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockProvider, parseOcrResponse, recognizeFiles, toReviewRow, type OcrCheque, type OcrProvider } from './ocr';
+
+const field = (value: string | number | null, confidence = 0.9) => ({ value, confidence });
+
+describe('parseOcrResponse', () => {
+  it('reads a cheques list of {value, confidence} fields', () => {
+    const text = JSON.stringify({ cheques: [{ amount: { value: '5000000', confidence: 0.95 }, date: { value: '1403/05/10', confidence: 0.8 } }] });
+    expect(parseOcrResponse(text)).toEqual([{ amount: field('5000000', 0.95), date: field('1403/05/10', 0.8) }]);
+  });
+
+  it('accepts a bare array, a single object and bare values', () => {
+    expect(parseOcrResponse(JSON.stringify([{ amount: 1000, date: '1403/01/01' }]))).toEqual([
+      { amount: field(1000, 0.5), date: field('1403/01/01', 0.5) }
+    ]);
+    expect(parseOcrResponse(JSON.stringify({ amount: '2000' }))).toEqual([
+      { amount: field('2000', 0.5), date: field(null, 0) }
+    ]);
+  });
+
+  it('clamps confidence and drops values of the wrong type', () => {
+    const [cheque] = parseOcrResponse(JSON.stringify([{ amount: { value: '1', confidence: 7 }, date: { value: { nested: true }, confidence: -1 } }]));
+    expect(cheque).toEqual({ amount: field('1', 1), date: field(null, 0) });
+  });
+
+  it('skips entries that are not objects or carry nothing', () => {
+    expect(parseOcrResponse(JSON.stringify({ cheques: [null, 'text', 3, {}, { amount: true }] }))).toEqual([]);
+    expect(parseOcrResponse('')).toEqual([]);
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parseOcrResponse('not json')).toThrow();
+  });
+});
+
+describe('toReviewRow', () => {
+  it('normalises digits and separators and accepts a clean row', () => {
+    const row = toReviewRow({ amount: field('۱۲,۵۰۰,۰۰۰'), date: field('۱۴۰۳/۰۵/۱۰', 0.7) }, 'a.jpg');
+    expect(row).toMatchObject({ fileName: 'a.jpg', amount: '12500000', date: '1403/05/10', amountConfidence: 0.9, dateConfidence: 0.7, status: 'accepted' });
+  });
+
+  it('keeps unreadable text with zero confidence and rejects the row', () => {
+    const row = toReviewRow({ amount: field('???'), date: field(null, 0) }, 'b.jpg');
+    expect(row).toMatchObject({ amount: '???', date: '', amountConfidence: 0, dateConfidence: 0, status: 'rejected' });
+  });
+});
+
+describe('recognizeFiles', () => {
+  const file = (name: string) => new File([new Uint8Array([1, 2, 3])], name, { type: 'image/jpeg' });
+  const cheque: OcrCheque = { amount: field('1000'), date: field('1403/01/01') };
+
+  it('collects rows from every file and reports progress', async () => {
+    const provider = createMockProvider({ 'a.jpg': [cheque, cheque] }, [cheque]);
+    const progress: number[] = [];
+    const { rows, errors } = await recognizeFiles(provider, [file('a.jpg'), file('b.jpg')], done => progress.push(done));
+
+    expect(rows.map(r => r.fileName)).toEqual(['a.jpg', 'a.jpg', 'b.jpg']);
+    expect(errors).toEqual([]);
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it('passes the file content to the provider as base64', async () => {
+    const seen: string[] = [];
+    const provider: OcrProvider = { name: 'spy', recognize: async input => { seen.push(input.data); return []; } };
+    await recognizeFiles(provider, [file('a.jpg')]);
+    expect(seen).toEqual(['AQID']);
+  });
+
+  it('keeps going after a file fails', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = new File([], 'bad.jpg');
+    const provider: OcrProvider = {
+      name: 'flaky',
+      recognize: async input => {
+        if (input.fileName === 'bad.jpg') throw new Error('model down');
+        return [cheque];
+      }
+    };
+    const { rows, errors } = await recognizeFiles(provider, [failing, file('good.jpg')]);
+    expect(rows).toHaveLength(1);
+    expect(errors.map(e => [e.fileName, (e.error as Error).message])).toEqual([['bad.jpg', 'model down']]);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,180 @@
+import { normalizeAmount, normalizeDate, type Normalized } from './normalize';
+import { isPlainObject } from './validation';
+
+export type OcrInput = {
+  fileName: string;
+  mimeType: string;
+  // Base64 file content without the data URL prefix
+  data: string;
+};
+
+// A raw field as reported by a recogniser, with its confidence between 0 and 1
+export type OcrField = {
+  value: string | number | null;
+  confidence: number;
+};
+
+export type OcrCheque = {
+  amount: OcrField;
+  date: OcrField;
+};
+
+// Anything that can turn an image or scanned PDF into zero or more cheques.
+// Swap in createMockProvider for tests or when working offline.
+export type OcrProvider = {
+  name: string;
+  recognize: (input: OcrInput) => Promise<OcrCheque[]>;
+};
+
+export type ReviewStatus = 'accepted' | 'rejected';
+
+export type ReviewRow = {
+  id: string;
+  fileName: string;
+  amount: string;
+  date: string;
+  amountConfidence: number;
+  dateConfidence: number;
+  status: ReviewStatus;
+};
+
+const clampConfidence = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+};
+
+// Only text and numbers can be normalised; anything else counts as not found
+const readValue = (raw: unknown) => typeof raw === 'string' || typeof raw === 'number' ? raw : null;
+
+const toField = (raw: unknown): OcrField => {
+  // Accept both {value, confidence} and a bare value
+  if (isPlainObject(raw)) {
+    return { value: readValue(raw.value), confidence: clampConfidence(raw.confidence) };
+  }
+  const value = readValue(raw);
+  return { value, confidence: value === null ? 0 : 0.5 };
+};
+
+// Parse a recogniser's JSON reply without trusting its shape
+export const parseOcrResponse = (text: string): OcrCheque[] => {
+  const data: unknown = JSON.parse(text || '{}');
+  const list: unknown[] = Array.isArray(data) ? data : isPlainObject(data) && Array.isArray(data.cheques) ? data.cheques : [data];
+  return list
+    .filter(isPlainObject)
+    .map(c => ({ amount: toField(c.amount), date: toField(c.date) }))
+    .filter(c => c.amount.value !== null || c.date.value !== null);
+};
+
+// Thrown when the OCR endpoint rejects a file; the message is shown to the user
+export class OcrRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'OcrRequestError';
+  }
+}
+
+const base64ToBytes = (data: string) => Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+
+// Sends files to the app's own /api/ocr endpoint, which holds the model API key
+export const createServerProvider = (endpoint = '/api/ocr'): OcrProvider => ({
+  name: 'server',
+  recognize: async ({ fileName, mimeType, data }) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': mimeType,
+        'X-File-Name': encodeURIComponent(fileName)
+      },
+      body: base64ToBytes(data)
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new OcrRequestError(body?.error || response.statusText, response.status);
+    }
+    return parseOcrResponse(JSON.stringify(body));
+  }
+});
+
+// Returns canned results, keyed by file name, with a fallback for unknown files
+export const createMockProvider = (results: Record<string, OcrCheque[]> = {}, fallback: OcrCheque[] = []): OcrProvider => ({
+  name: 'mock',
+  recognize: async ({ fileName }) => results[fileName] ?? fallback
+});
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const readFileAsBase64 = async (file: File): Promise<OcrInput> => ({
+  fileName: file.name,
+  mimeType: file.type,
+  data: bytesToBase64(new Uint8Array(await file.arrayBuffer()))
+});
+
+const normalizeField = (field: OcrField, normalize: (raw: unknown) => Normalized): OcrField => {
+  if (field.value === null) return field;
+  const result = normalize(field.value);
+  return result.error
+    ? { value: String(field.value), confidence: 0 }
+    : { value: result.value, confidence: field.confidence };
+};
+
+// Normalise digits, separators and calendars of a detected cheque. Fields that
+// cannot be normalised keep their raw text with zero confidence.
+export const normalizeOcrCheque = (cheque: OcrCheque): OcrCheque => ({
+  amount: normalizeField(cheque.amount, normalizeAmount),
+  date: normalizeField(cheque.date, normalizeDate)
+});
+
+// Normalise a detected cheque into an editable review row. Fields that fail
+// normalisation keep their raw text and drop to zero confidence.
+export const toReviewRow = (cheque: OcrCheque, fileName: string): ReviewRow => {
+  const amount = cheque.amount.value === null ? null : normalizeAmount(cheque.amount.value);
+  const date = cheque.date.value === null ? null : normalizeDate(cheque.date.value);
+  const amountOk = !!amount && !amount.error;
+  const dateOk = !!date && !date.error;
+
+  return {
+    id: Date.now().toString() + Math.random().toString(36).substring(7),
+    fileName,
+    amount: amount?.value ?? String(cheque.amount.value ?? ''),
+    date: date?.value ?? String(cheque.date.value ?? ''),
+    amountConfidence: amountOk ? cheque.amount.confidence : 0,
+    dateConfidence: dateOk ? cheque.date.confidence : 0,
+    status: amountOk && dateOk ? 'accepted' : 'rejected'
+  };
+};
+
+export type OcrFileError = {
+  fileName: string;
+  file: File;
+  error: unknown;
+};
+
+// Run the provider over each file in turn, collecting rows and per-file failures
+export const recognizeFiles = async (
+  provider: OcrProvider,
+  files: File[],
+  onProgress?: (done: number, total: number) => void
+) => {
+  const rows: ReviewRow[] = [];
+  const errors: OcrFileError[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    try {
+      const input = await readFileAsBase64(files[i]);
+      const cheques = await provider.recognize(input);
+      rows.push(...cheques.map(c => toReviewRow(c, files[i].name)));
+    } catch (error) {
+      console.error(error);
+      errors.push({ fileName: files[i].name, file: files[i], error });
+    }
+    onProgress?.(i + 1, files.length);
+  }
+
+  return { rows, errors };
+};
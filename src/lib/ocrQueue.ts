@@ -0,0 +1,60 @@
+// Cheque images picked while offline wait in IndexedDB (which, unlike localStorage,
+// can hold files) and are sent for recognition once the browser is back online.
+const DB_NAME = 'ras-giri';
+const DB_VERSION = 1;
+const STORE = 'ocr-queue';
+
+export type QueuedImage = {
+  id: string;
+  file: File;
+  queuedAt: number;
+};
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one transaction against the queue store and resolve once it has committed
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const enqueueImages = async (files: File[]) => {
+  const now = Date.now();
+  await withStore('readwrite', store => {
+    files.forEach((file, i) => {
+      store.put({ id: `${now}-${i}-${Math.random().toString(36).substring(7)}`, file, queuedAt: now });
+    });
+  });
+};
+
+export const loadQueue = async (): Promise<QueuedImage[]> => {
+  const items = await withStore<QueuedImage[]>('readonly', store => store.getAll());
+  return (items ?? []).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const removeFromQueue = async (ids: string[]) => {
+  await withStore('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+// fetch rejects with a TypeError when the request never reached the server;
+// those files are worth retrying later, unlike ones the server refused
+export const isNetworkError = (error: unknown) => error instanceof TypeError;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parsePastedRows } from './paste';
+
+const fields = (text: string) => {
+  const result = parsePastedRows(text);
+  return result && { rows: result.cheques.map(({ amount, date, type }) => [amount, date, type]), skipped: result.skipped };
+};
+
+describe('parsePastedRows', () => {
+  it('reads tab-separated rows copied from Excel and skips the header', () => {
+    expect(fields('تاریخ\tمبلغ\tنوع\n1403/01/05\t1,000,000\tپرداختی\n۱۴۰۳/۰۲/۰۱\t۲۰۰۰\t\n')).toEqual({
+      rows: [['1000000', '1403/01/05', 'paid'], ['2000', '1403/02/01', 'received']],
+      skipped: 1
+    });
+  });
+
+  it('splits on commas but not on thousands separators', () => {
+    expect(fields('1403/01/05,1,250,000\n1403/02/01; 50m')).toEqual({
+      rows: [['1250000', '1403/01/05', 'received'], ['50000000', '1403/02/01', 'received']],
+      skipped: 0
+    });
+  });
+
+  it('ignores extra columns and finds cells in any order', () => {
+    expect(fields('قسط اول\t3000\t14030301\tmemo')?.rows).toEqual([['3000', '1403/03/01', 'received']]);
+  });
+
+  it('keeps a row with only one usable value and counts rows with none', () => {
+    expect(fields('1403/01/05\tabc\nxyz\tقسط\n\t7000')).toEqual({
+      rows: [['', '1403/01/05', 'received'], ['7000', '', 'received']],
+      skipped: 1
+    });
+  });
+
+  it('drops a date outside the calendar instead of throwing', () => {
+    expect(fields('9999-12-31\t1000\n1403/01/05\t2000')?.rows).toEqual([['1000', '', 'received'], ['2000', '1403/01/05', 'received']]);
+  });
+
+  it('leaves a single value to the focused input', () => {
+    expect(parsePastedRows('1,000,000')).toBeNull();
+    expect(parsePastedRows('  \n')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import type { Cheque, ChequeType } from '../types';
+import { chequeTypeLabels, createEmptyCheque } from './cases';
+import { normalizeAmount, normalizeDate, toLatinDigits } from './normalize';
+
+export type PasteResult = {
+  cheques: Cheque[];
+  // Lines that had neither a usable amount nor a usable date
+  skipped: number;
+};
+
+// Split one pasted line into cells. Excel copies tab-separated text; otherwise a comma
+// is a separator unless it is followed by exactly three digits, i.e. a thousands separator.
+const splitCells = (line: string) => {
+  if (line.includes('\t')) return line.split('\t');
+  return line.split(/[;|]|,(?!\d{3}(?:\D|$))/);
+};
+
+const looksLikeDate = (cell: string) => /\d[\/\-.]\d|^\d{8}$/.test(toLatinDigits(cell).trim());
+
+const parseType = (cell: string): ChequeType | null => {
+  const value = cell.trim().toLowerCase();
+  if (value === 'paid' || value === chequeTypeLabels.paid) return 'paid';
+  if (value === 'received' || value === chequeTypeLabels.received) return 'received';
+  return null;
+};
+
+// Turn a block copied from a spreadsheet or bank statement into cheques. Each line is
+// scanned for the first cell that reads as a date and the first that reads as an amount,
+// so extra columns such as descriptions or balances are ignored.
+// Returns null for a single value, which the focused input should handle itself.
+export const parsePastedRows = (text: string): PasteResult | null => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return null;
+  if (lines.length === 1 && splitCells(lines[0]).filter(cell => cell.trim()).length < 2) return null;
+
+  const cheques: Cheque[] = [];
+  let skipped = 0;
+  for (const line of lines) {
+    let amount: string | null = null;
+    let date: string | null = null;
+    let type: ChequeType = 'received';
+
+    for (const cell of splitCells(line)) {
+      if (!cell.trim()) continue;
+      if (date === null && looksLikeDate(cell)) {
+        date = normalizeDate(cell).value;
+        if (date !== null) continue;
+      }
+      if (amount === null) {
+        amount = normalizeAmount(cell).value;
+        if (amount !== null) continue;
+      }
+      type = parseType(cell) ?? type;
+    }
+
+    if (amount === null && date === null) {
+      skipped++;
+      continue;
+    }
+    cheques.push({ ...createEmptyCheque(), amount: amount ?? '', date: date ?? '', type });
+  }
+  return { cheques, skipped };
+};
@@ -0,0 +1,304 @@
+import { jsPDF } from 'jspdf';
+import { toDataURL } from 'qrcode';
+import vazirmatnRegularUrl from 'vazirmatn/fonts/ttf/Vazirmatn-Regular.ttf?url';
+import vazirmatnBoldUrl from 'vazirmatn/fonts/ttf/Vazirmatn-Bold.ttf?url';
+import { chequeTypeLabels } from './cases';
+import { interestMethodLabels, type DiscountSummary } from './discount';
+import type { ProcessedCheque, RasSummary, Settlement } from './ras';
+import { amountInWords, amountUnitLabels, formatInUnit, localizeDigits } from './money';
+import { formatAuditTime, type AuditRecord } from './audit';
+import type { DisplaySettings } from '../types';
+
+export type ReportInput = {
+  caseName: string;
+  baseDate: string;
+  processedCheques: ProcessedCheque[];
+  results: RasSummary;
+  settlement: Settlement | null;
+  discount: DiscountSummary | null;
+  businessDayMode: boolean;
+  display: DisplaySettings;
+  audit: AuditRecord;
+  // Link to the verify screen carrying the record; encoded in the QR code
+  verifyUrl: string;
+};
+
+type Column = {
+  title: string;
+  width: number;
+  value: (cheque: ProcessedCheque, index: number) => string;
+};
+
+const FONT = 'Vazirmatn';
+const MARGIN = 15;
+const ROW_HEIGHT = 8;
+const FOOTER_HEIGHT = 15;
+const QR_SIZE = 40;
+
+const COLORS = {
+  text: [15, 23, 42],
+  muted: [100, 116, 139],
+  header: [79, 70, 229],
+  stripe: [248, 250, 252],
+  border: [226, 232, 240],
+  accent: [5, 150, 105],
+} as const;
+
+let fontCache: Promise<Record<'normal' | 'bold', string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (url: string) => toBase64(await (await fetch(url)).arrayBuffer());
+
+// The TTFs are bundled with the app; fetch them once and reuse them for every report
+const loadFonts = () => {
+  if (!fontCache) {
+    fontCache = Promise.all([fetchFont(vazirmatnRegularUrl), fetchFont(vazirmatnBoldUrl)])
+      .then(([normal, bold]) => ({ normal, bold }));
+    fontCache.catch(() => { fontCache = null; });
+  }
+  return fontCache;
+};
+
+const registerFonts = async (pdf: jsPDF) => {
+  const fonts = await loadFonts();
+  pdf.addFileToVFS('Vazirmatn-Regular.ttf', fonts.normal);
+  pdf.addFont('Vazirmatn-Regular.ttf', FONT, 'normal');
+  pdf.addFileToVFS('Vazirmatn-Bold.ttf', fonts.bold);
+  pdf.addFont('Vazirmatn-Bold.ttf', FONT, 'bold');
+  pdf.setFont(FONT, 'normal');
+};
+
+const createQrImage = (url: string) => toDataURL(url, { errorCorrectionLevel: 'L', margin: 1, width: 480 });
+
+// Build a searchable, paginated A4 report. jsPDF shapes the Persian glyphs and
+// reorders right-to-left runs itself, so text is passed in logical order.
+export const generateReport = async ({ caseName, baseDate, processedCheques, results, settlement, discount, businessDayMode, display, audit, verifyUrl }: ReportInput) => {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const [, qrImage] = await Promise.all([registerFonts(pdf), createQrImage(verifyUrl)]);
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - MARGIN;
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottom = pageHeight - MARGIN - FOOTER_HEIGHT;
+
+  const setColor = (color: readonly number[]) => pdf.setTextColor(color[0], color[1], color[2]);
+  // Every string goes through here, so the digit style applies to the whole report
+  const text = (value: string, x: number, y: number, align: 'right' | 'center' | 'left' = 'right') => {
+    pdf.text(localizeDigits(value, display.digits), x, y, { align });
+  };
+  const unitLabel = amountUnitLabels[display.unit];
+  const money = (amount: string | bigint) => formatInUnit(amount, display.unit);
+
+  // Header block
+  let y = MARGIN + 5;
+  pdf.setFont(FONT, 'bold');
+  pdf.setFontSize(18);
+  setColor(COLORS.text);
+  text('گزارش محاسبه راس چک', right, y);
+
+  y += 9;
+  pdf.setFont(FONT, 'normal');
+  pdf.setFontSize(11);
+  text(`پرونده: ${caseName}`, right, y);
+  setColor(COLORS.muted);
+  text(`تاریخ چاپ: ${formatAuditTime(audit.createdAt)}`, MARGIN, y, 'left');
+
+  y += 7;
+  setColor(COLORS.text);
+  text(`تاریخ مبدا: ${baseDate}`, right, y);
+
+  y += 4;
+  pdf.setDrawColor(COLORS.border[0], COLORS.border[1], COLORS.border[2]);
+  pdf.line(MARGIN, y, right, y);
+  y += 6;
+
+  // Cheque table
+  const columns: Column[] = [
+    { title: 'ردیف', width: 14, value: (_, i) => (i + 1).toString() },
+    { title: `مبلغ به ${unitLabel}`, width: discount ? 48 : 66, value: c => money(c.amount) || '-' },
+    { title: 'تاریخ سررسید', width: 36, value: c => c.date || '-' },
+  ];
+  if (businessDayMode) {
+    columns.push({ title: 'تاریخ وصول', width: 36, value: c => c.isDateValid ? c.effectiveDate : '-' });
+  }
+  columns.push(
+    { title: 'نوع', width: 26, value: c => chequeTypeLabels[c.type] },
+    { title: 'روزها', width: 20, value: c => c.days },
+  );
+  if (discount) {
+    columns.push({
+      title: 'ارزش فعلی',
+      width: 36,
+      value: c => c.id in discount.presentValues ? money(discount.presentValues[c.id]) || '0' : '-'
+    });
+  }
+  const scale = contentWidth / columns.reduce((sum, col) => sum + col.width, 0);
+
+  const drawRow = (cells: string[], fill: readonly number[] | null) => {
+    if (fill) {
+      pdf.setFillColor(fill[0], fill[1], fill[2]);
+      pdf.rect(MARGIN, y, contentWidth, ROW_HEIGHT, 'F');
+    }
+    let x = right;
+    cells.forEach((cell, i) => {
+      const width = columns[i].width * scale;
+      text(cell, x - width / 2, y + ROW_HEIGHT / 2 + 1.5, 'center');
+      x -= width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const drawTableHeader = () => {
+    pdf.setFont(FONT, 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor(255, 255, 255);
+    drawRow(columns.map(col => col.title), COLORS.header);
+    pdf.setFont(FONT, 'normal');
+    setColor(COLORS.text);
+  };
+
+  drawTableHeader();
+  processedCheques
+    .filter(c => (c.amount || c.date) && !c.isExcluded)
+    .forEach((cheque, index) => {
+      if (y + ROW_HEIGHT > bottom) {
+        pdf.addPage();
+        y = MARGIN;
+        drawTableHeader();
+      }
+      drawRow(columns.map(col => col.value(cheque, index)), index % 2 === 1 ? COLORS.stripe : null);
+    });
+
+  // Results footer
+  // The third item marks the ras lines, which are printed in the accent colour
+  const summaryLines: [string, string, boolean?][] = [
+    ['جمع کل مبالغ', `${money(results.totalAmount)} ${unitLabel}`],
+    ['به حروف', amountInWords(results.totalAmount, display.unit)],
+    ['میانگین وزنی روزها', `${results.averageDays} روز`],
+    ['تاریخ دقیق راس', results.rasDate, true],
+  ];
+  if (businessDayMode) {
+    summaryLines.push(['راس در روز کاری', results.adjustedRasDate, true]);
+  }
+  if (settlement) {
+    for (const type of ['received', 'paid'] as const) {
+      const side = settlement[type];
+      if (side) {
+        const ras = businessDayMode ? `${side.rasDate} · روز کاری ${side.adjustedRasDate}` : side.rasDate;
+        summaryLines.push([`چک‌های ${chequeTypeLabels[type]}`, `${money(side.totalAmount)} ${unitLabel} · راس ${ras}`]);
+      }
+    }
+    const netLabel = settlement.netAmount > 0n ? 'خالص دریافتنی' : settlement.netAmount < 0n ? 'خالص پرداختنی' : 'تراز';
+    const netAmount = settlement.netAmount < 0n ? -settlement.netAmount : settlement.netAmount;
+    const netDate = businessDayMode && settlement.netAdjustedRasDate !== settlement.netRasDate
+      ? `${settlement.netRasDate} · روز کاری ${settlement.netAdjustedRasDate}`
+      : settlement.netRasDate;
+    const netDue = netDate ? ` · سررسید ${netDate}` : settlement.netOutOfRange ? ' · سررسید بیرون از بازه تقویم' : '';
+    summaryLines.push([netLabel, `${money(netAmount) || '0'} ${unitLabel}${netDue}`]);
+  }
+  if (discount) {
+    summaryLines.push(
+      ['نرخ سود سالانه', `${+(discount.annualRate * 100).toFixed(4)}٪`],
+      ['روش محاسبه سود', interestMethodLabels[discount.method]],
+      ['ارزش فعلی کل', `${money(discount.totalPresentValue) || '0'} ${unitLabel}`],
+      ['مجموع تنزیل', `${money(discount.totalDiscount) || '0'} ${unitLabel}`],
+      ['تاریخ معادل پرداخت یکجا', discount.equivalentDate],
+    );
+    if (discount.skippedIds.length > 0) summaryLines.push(['چک‌های بدون ارزش فعلی', `${discount.skippedIds.length} چک، بیرون از جمع‌ها`]);
+  }
+
+  const footerHeight = 12 + summaryLines.length * 7;
+  if (y + 8 + footerHeight > bottom) {
+    pdf.addPage();
+    y = MARGIN;
+  } else {
+    y += 8;
+  }
+
+  pdf.setFillColor(COLORS.stripe[0], COLORS.stripe[1], COLORS.stripe[2]);
+  pdf.roundedRect(MARGIN, y, contentWidth, footerHeight, 3, 3, 'F');
+  y += 9;
+  pdf.setFont(FONT, 'bold');
+  pdf.setFontSize(12);
+  text('نتیجه نهایی راس‌گیری', right - 5, y);
+  pdf.setFontSize(10);
+  summaryLines.forEach(([label, value, accent]) => {
+    y += 7;
+    pdf.setFont(FONT, 'normal');
+    pdf.setFontSize(10);
+    setColor(COLORS.muted);
+    text(label, right - 5, y);
+    // Long values, such as the total in words, shrink to stay clear of the label
+    const available = contentWidth - 15 - pdf.getTextWidth(label);
+    pdf.setFont(FONT, 'bold');
+    for (let size = 10; size > 6 && pdf.getTextWidth(value) > available; size--) pdf.setFontSize(size - 1);
+    setColor(accent ? COLORS.accent : COLORS.text);
+    text(value, MARGIN + 5, y, 'left');
+  });
+
+  // Audit block: the input hash, when the report was made and a QR code of the case
+  // that opens the verify screen, so an edited copy can be told apart from the original
+  const auditHeight = QR_SIZE + 10;
+  if (y + 12 + auditHeight > bottom) {
+    pdf.addPage();
+    y = MARGIN;
+  } else {
+    y += 12;
+  }
+  pdf.setDrawColor(COLORS.border[0], COLORS.border[1], COLORS.border[2]);
+  pdf.roundedRect(MARGIN, y, contentWidth, auditHeight, 3, 3, 'S');
+  pdf.addImage(qrImage, 'PNG', MARGIN + 5, y + 5, QR_SIZE, QR_SIZE);
+
+  let auditY = y + 10;
+  pdf.setFont(FONT, 'bold');
+  pdf.setFontSize(12);
+  setColor(COLORS.text);
+  text('گواهی محاسبه', right - 5, auditY);
+  auditY += 8;
+  pdf.setFont(FONT, 'normal');
+  pdf.setFontSize(9);
+  setColor(COLORS.muted);
+  text('شناسه محاسبه (SHA-256 تاریخ مبدا و چک‌ها)', right - 5, auditY);
+  // The hash is printed with Latin digits whatever the display setting, so it can be typed back
+  pdf.setFont(FONT, 'bold');
+  setColor(COLORS.text);
+  [audit.hash.slice(0, 32), audit.hash.slice(32)].forEach(part => {
+    auditY += 5.5;
+    pdf.text(part, right - 5, auditY, { align: 'right' });
+  });
+  auditY += 8;
+  pdf.setFont(FONT, 'normal');
+  text(`زمان تولید: ${formatAuditTime(audit.createdAt)}`, right - 5, auditY);
+  auditY += 7;
+  pdf.setFontSize(8);
+  setColor(COLORS.muted);
+  const notes = ['برای بررسی، کد QR را اسکن کنید', 'یا شناسه و فایل JSON پرونده را در صفحه «بررسی گزارش» وارد کنید'];
+  notes.forEach((note, i) => text(note, right - 5, auditY + i * 4.5));
+  y += auditHeight;
+
+  // Page numbers
+  const pageCount = pdf.getNumberOfPages();
+  pdf.setFont(FONT, 'normal');
+  pdf.setFontSize(9);
+  setColor(COLORS.muted);
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    text(`صفحه ${page} از ${pageCount}`, pageWidth / 2, pageHeight - MARGIN, 'center');
+  }
+
+  return pdf;
+};
+
+export const downloadReport = async (input: ReportInput) => {
+  const pdf = await generateReport(input);
+  pdf.save(`${input.caseName || 'ras-giri'}.pdf`);
+};
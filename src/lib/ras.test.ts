@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque } from '../types';
+import { calculateRas, parseNumber, roundDiv } from './ras';
+
+const cheque = (amount: string, date: string, extra: Partial<Cheque> = {}): Cheque => ({
+  id: `${amount}-${date}`,
+  amount,
+  date,
+  type: 'received',
+  ...extra
+});
+
+// One above Number.MAX_SAFE_INTEGER, where Number arithmetic starts losing units
+const UNSAFE = '9007199254740993';
+
+describe('parseNumber', () => {
+  it('reads comma-grouped amounts', () => {
+    expect(parseNumber('1,234,567')).toBe(1234567n);
+    expect(parseNumber(' 42 ')).toBe(42n);
+    expect(parseNumber('-12')).toBe(-12n);
+  });
+
+  it('ignores fractions and falls back to zero', () => {
+    expect(parseNumber('12.7')).toBe(12n);
+    expect(parseNumber('')).toBe(0n);
+    expect(parseNumber('abc')).toBe(0n);
+  });
+
+  it('keeps amounts above Number.MAX_SAFE_INTEGER exact', () => {
+    expect(parseNumber('9,007,199,254,740,993')).toBe(9007199254740993n);
+    expect(parseNumber('123456789012345678901234567890')).toBe(123456789012345678901234567890n);
+  });
+});
+
+describe('roundDiv', () => {
+  it('rounds halves towards +Infinity like Math.round', () => {
+    expect(roundDiv(5n, 2n)).toBe(3n);
+    expect(roundDiv(-5n, 2n)).toBe(-2n);
+    expect(roundDiv(5n, -2n)).toBe(-2n);
+    expect(roundDiv(-5n, -2n)).toBe(3n);
+  });
+
+  it('rounds other fractions to the nearest integer', () => {
+    expect(roundDiv(7n, 3n)).toBe(2n);
+    expect(roundDiv(8n, 3n)).toBe(3n);
+    expect(roundDiv(-7n, 3n)).toBe(-2n);
+    expect(roundDiv(-8n, 3n)).toBe(-3n);
+    expect(roundDiv(6n, 3n)).toBe(2n);
+  });
+
+  it('stays exact beyond Number.MAX_SAFE_INTEGER', () => {
+    const big = BigInt(UNSAFE);
+    expect(roundDiv(big * 3n + 1n, 3n)).toBe(big);
+    expect(roundDiv(big * 2n + 1n, 2n)).toBe(big + 1n);
+  });
+});
+
+describe('calculateRas', () => {
+  it('weights days by amount', () => {
+    const { results, processedCheques } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1403/01/11'), cheque('300', '1403/01/31')]
+    });
+    expect(processedCheques.map(c => c.days)).toEqual(['10', '30']);
+    expect(results).toMatchObject({ totalAmount: 400n, totalValueDays: 10000n, averageDays: 25, rasDate: '1403/01/26', validChequesCount: 2 });
+  });
+
+  it('rounds a .5 average up for positive days', () => {
+    const { results } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1403/01/02'), cheque('100', '1403/01/03')]
+    });
+    expect(results?.averageDays).toBe(2);
+    expect(results?.rasDate).toBe('1403/01/03');
+  });
+
+  it('rounds a -.5 average towards zero for cheques before the base date', () => {
+    const { results } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1402/12/29'), cheque('100', '1402/12/28')]
+    });
+    expect(results?.averageDays).toBe(-1);
+    expect(results?.rasDate).toBe('1402/12/29');
+  });
+
+  it('rounds the net ras at .5 when paid cheques outweigh received ones', () => {
+    // Net amount -200; net value-days -500, so the net days are exactly 2.5
+    const { settlement } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1403/01/02'), cheque('300', '1403/01/03', { type: 'paid' })]
+    });
+    expect(settlement?.netAmount).toBe(-200n);
+    expect(settlement?.netDays).toBe(3);
+    expect(settlement?.netRasDate).toBe('1403/01/04');
+  });
+
+  it('rounds a negative net ras of -.5 towards zero', () => {
+    // Net amount -200; net value-days 500, so the net days are exactly -2.5
+    const { settlement } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1402/12/29'), cheque('300', '1402/12/28', { type: 'paid' })]
+    });
+    expect(settlement?.netAmount).toBe(-200n);
+    expect(settlement?.netDays).toBe(-2);
+  });
+
+  it('flags a net ras pushed outside the calendar by nearly cancelling totals', () => {
+    // Net amount 1 against net value-days of about ten billion
+    const { settlement } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('1000000001', '1403/01/11'), cheque('1000000000', '1403/01/01', { type: 'paid' })]
+    });
+    expect(settlement?.netAmount).toBe(1n);
+    expect(settlement?.netOutOfRange).toBe(true);
+    expect(settlement?.netRasDate).toBeNull();
+    expect(settlement?.netAdjustedRasDate).toBeNull();
+  });
+
+  it('handles totals above Number.MAX_SAFE_INTEGER without losing units', () => {
+    const { results } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque(UNSAFE, '1403/01/11'), cheque(UNSAFE, '1403/01/21')]
+    });
+    expect(results?.totalAmount).toBe(18014398509481986n);
+    expect(results?.totalValueDays).toBe(BigInt(UNSAFE) * 30n);
+    expect(results?.averageDays).toBe(15);
+    expect(results?.rasDate).toBe('1403/01/16');
+  });
+
+  it('counts Esfand 30 only in leap years', () => {
+    const { processedCheques, results } = calculateRas({
+      baseDate: '1402/12/01',
+      cheques: [cheque('100', '1402/12/30'), cheque('100', '1403/12/30')]
+    });
+    expect(processedCheques[0]).toMatchObject({ isDateValid: false, isInvalid: true, days: '-' });
+    expect(processedCheques[1].isDateValid).toBe(true);
+    expect(results?.validChequesCount).toBe(1);
+  });
+
+  it('leaves out excluded statuses but still lists them', () => {
+    const { processedCheques, results } = calculateRas({
+      baseDate: '1403/01/01',
+      cheques: [cheque('100', '1403/01/11'), cheque('900', '1403/02/01', { status: 'cleared' })],
+      excludedStatuses: ['cleared']
+    });
+    expect(processedCheques[1]).toMatchObject({ isExcluded: true, days: '31' });
+    expect(results).toMatchObject({ totalAmount: 100n, averageDays: 10 });
+  });
+
+  it('returns no results without a valid base date', () => {
+    const output = calculateRas({ baseDate: '1402/12/30', cheques: [cheque('100', '1403/01/11')] });
+    expect(output.isBaseValid).toBe(false);
+    expect(output.results).toBeNull();
+    expect(output.settlement).toBeNull();
+  });
+});
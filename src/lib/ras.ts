@@ -0,0 +1,182 @@
+import type { Cheque, ChequeStatus, ChequeType } from '../types';
+import { addJalaliDays, canAddJalaliDays, diffJalaliDays, isValidJalali } from './jalali';
+import { rollToBusinessDay, type BusinessDayRule } from './holidays';
+
+export type ProcessedCheque = Cheque & {
+  parsedAmount: bigint;
+  isDateValid: boolean;
+  isInvalid: boolean;
+  // Listed but left out of the ras because of its status
+  isExcluded: boolean;
+  // Date the cheque can actually be cleared; differs from `date` only in business-day mode
+  effectiveDate: string;
+  days: string;
+};
+
+export type RasSummary = {
+  totalAmount: bigint;
+  totalValueDays: bigint;
+  averageDays: number;
+  rasDate: string;
+  // rasDate rolled onto a business day; equal to rasDate outside business-day mode
+  adjustedRasDate: string;
+  validChequesCount: number;
+};
+
+export type Settlement = {
+  received: RasSummary | null;
+  paid: RasSummary | null;
+  netAmount: bigint;
+  netDays: number | null;
+  // Null when the two sides balance exactly or the net date falls outside the calendar
+  netRasDate: string | null;
+  // Nearly cancelling totals push the net date thousands of years away
+  netOutOfRange: boolean;
+  netAdjustedRasDate: string | null;
+};
+
+export type RasInput = {
+  baseDate: string;
+  cheques: Cheque[];
+  excludedStatuses?: ChequeStatus[];
+  businessDays?: BusinessDayRule | null;
+};
+
+export type RasOutput = {
+  processedCheques: ProcessedCheque[];
+  results: RasSummary | null;
+  settlement: Settlement | null;
+  isBaseValid: boolean;
+};
+
+type Accumulator = {
+  totalAmount: bigint;
+  totalValueDays: bigint;
+  validChequesCount: number;
+};
+
+// Format numbers with commas
+export const formatNumber = (num: string | number | bigint) => {
+  if (!num) return '';
+  return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+// Parse a comma-separated amount. Rial totals easily pass Number.MAX_SAFE_INTEGER,
+// so amounts are kept as BigInt throughout the engine.
+export const parseNumber = (str: string) => {
+  const match = str.replace(/,/g, '').trim().match(/^-?\d+/);
+  return match ? BigInt(match[0]) : 0n;
+};
+
+const floorDiv = (a: bigint, b: bigint) => {
+  const q = a / b;
+  return (a % b !== 0n) && ((a < 0n) !== (b < 0n)) ? q - 1n : q;
+};
+
+// Integer division rounded like Math.round (halves go towards +Infinity)
+export const roundDiv = (numerator: bigint, denominator: bigint) => {
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  return floorDiv(2n * numerator + denominator, 2n * denominator);
+};
+
+const emptyAccumulator = (): Accumulator => ({ totalAmount: 0n, totalValueDays: 0n, validChequesCount: 0 });
+
+const adjustDate = (date: string, businessDays: BusinessDayRule | null | undefined) => {
+  return businessDays ? rollToBusinessDay(date, businessDays.calendar, businessDays.roll) : date;
+};
+
+const summarize = (acc: Accumulator, baseDate: string, businessDays?: BusinessDayRule | null): RasSummary | null => {
+  if (acc.totalAmount <= 0n || acc.validChequesCount === 0) return null;
+  const averageDays = Number(roundDiv(acc.totalValueDays, acc.totalAmount));
+  const rasDate = addJalaliDays(baseDate, averageDays);
+  return {
+    totalAmount: acc.totalAmount,
+    totalValueDays: acc.totalValueDays,
+    averageDays,
+    rasDate,
+    adjustedRasDate: adjustDate(rasDate, businessDays),
+    validChequesCount: acc.validChequesCount
+  };
+};
+
+// Compute per-cheque day offsets, the weighted-average ras and the received/paid settlement in one pass
+// In business-day mode a cheque falling on a weekend or holiday only clears on the next
+// business day, so its days are counted to that date; the ras itself rolls per the rule.
+export const calculateRas = ({ baseDate, cheques, excludedStatuses = [], businessDays }: RasInput): RasOutput => {
+  const isBaseValid = isValidJalali(baseDate);
+
+  const total = emptyAccumulator();
+  const sides: Record<ChequeType, Accumulator> = {
+    received: emptyAccumulator(),
+    paid: emptyAccumulator(),
+  };
+
+  const processedCheques = cheques.map(cheque => {
+    const amt = parseNumber(cheque.amount);
+    const isDateValid = isValidJalali(cheque.date);
+    const isExcluded = excludedStatuses.includes(cheque.status ?? 'pending');
+    const effectiveDate = isDateValid && businessDays
+      ? rollToBusinessDay(cheque.date, businessDays.calendar, 'next')
+      : cheque.date;
+    let days = '-';
+
+    if (isBaseValid && isDateValid) {
+      const diffDays = diffJalaliDays(baseDate, effectiveDate);
+      days = diffDays.toString();
+
+      if (amt > 0n && !isExcluded) {
+        for (const acc of [total, sides[cheque.type]]) {
+          acc.totalAmount += amt;
+          acc.totalValueDays += amt * BigInt(diffDays);
+          acc.validChequesCount++;
+        }
+      }
+    }
+
+    return {
+      ...cheque,
+      parsedAmount: amt,
+      isDateValid,
+      isInvalid: cheque.date.length >= 8 && !isDateValid,
+      isExcluded,
+      effectiveDate,
+      days
+    };
+  });
+
+  if (!isBaseValid) {
+    return { processedCheques, results: null, settlement: null, isBaseValid };
+  }
+
+  // Settlement is only meaningful once cheques have been issued to the counterparty
+  let settlement: Settlement | null = null;
+  if (sides.paid.validChequesCount > 0) {
+    // The net ras is the date on which a single payment of the net amount
+    // is equivalent to both sides: (Σ received·days − Σ paid·days) / (Σ received − Σ paid)
+    const netAmount = sides.received.totalAmount - sides.paid.totalAmount;
+    const netValueDays = sides.received.totalValueDays - sides.paid.totalValueDays;
+    const netDays = netAmount !== 0n ? roundDiv(netValueDays, netAmount) : null;
+    const netOutOfRange = netDays !== null && !canAddJalaliDays(baseDate, netDays);
+    const netRasDate = netDays !== null && !netOutOfRange ? addJalaliDays(baseDate, Number(netDays)) : null;
+
+    settlement = {
+      received: summarize(sides.received, baseDate, businessDays),
+      paid: summarize(sides.paid, baseDate, businessDays),
+      netAmount,
+      netDays: netDays === null ? null : Number(netDays),
+      netRasDate,
+      netOutOfRange,
+      netAdjustedRasDate: netRasDate && adjustDate(netRasDate, businessDays)
+    };
+  }
+
+  return {
+    processedCheques,
+    results: summarize(total, baseDate, businessDays),
+    settlement,
+    isBaseValid
+  };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { generateSeries, type SeriesInput } from './series';
+
+const input = (overrides: Partial<SeriesInput>): SeriesInput => ({
+  amountMode: 'total',
+  amount: 0n,
+  step: 0n,
+  roundTo: 1n,
+  remainder: 'last',
+  firstDate: '1403/01/01',
+  interval: 1,
+  intervalUnit: 'month',
+  count: 3,
+  type: 'received',
+  ...overrides
+});
+
+const amounts = (overrides: Partial<SeriesInput>) => {
+  const result = generateSeries(input(overrides));
+  if (result.ok === false) throw new Error(result.reason);
+  return result.cheques.map(c => c.amount);
+};
+
+const dates = (overrides: Partial<SeriesInput>) => {
+  const result = generateSeries(input({ amount: 1n, amountMode: 'per-cheque', ...overrides }));
+  if (result.ok === false) throw new Error(result.reason);
+  return result.cheques.map(c => c.date);
+};
+
+describe('generateSeries amounts', () => {
+  const million = 1000000n;
+
+  it('rounds each cheque down to roundTo and places the rest', () => {
+    const base = { amount: 11n * million, roundTo: million };
+    expect(amounts({ ...base, remainder: 'first' })).toEqual(['5000000', '3000000', '3000000']);
+    expect(amounts({ ...base, remainder: 'last' })).toEqual(['3000000', '3000000', '5000000']);
+    expect(amounts({ ...base, remainder: 'spread' })).toEqual(['4000000', '4000000', '3000000']);
+  });
+
+  it('puts odd rials on the first cheque when spreading', () => {
+    expect(amounts({ amount: 11n * million + 7n, roundTo: million, remainder: 'spread' })).toEqual(['4000007', '4000000', '3000000']);
+  });
+
+  it('always adds up to the total', () => {
+    const result = generateSeries(input({ amount: 1000000007n, count: 7, step: 13n, roundTo: 1000n, remainder: 'spread' }));
+    expect(result.ok && result.total).toBe(1000000007n);
+  });
+
+  it('steps amounts from the total or per cheque', () => {
+    expect(amounts({ amount: 330n, step: 10n })).toEqual(['100', '110', '120']);
+    expect(amounts({ amountMode: 'per-cheque', amount: 100n, step: -10n })).toEqual(['100', '90', '80']);
+  });
+
+  it('rejects a series whose step drives an amount to zero or below', () => {
+    expect(generateSeries(input({ amountMode: 'per-cheque', amount: 20n, step: -10n }))).toEqual({ ok: false, reason: 'negative-amount' });
+  });
+});
+
+describe('generateSeries dates', () => {
+  it('clamps to short months and returns to the 31st when the month allows', () => {
+    expect(dates({ firstDate: '1403/06/31' })).toEqual(['1403/06/31', '1403/07/30', '1403/08/30']);
+    expect(dates({ firstDate: '1403/06/31', interval: 6 })).toEqual(['1403/06/31', '1403/12/30', '1404/06/31']);
+    expect(dates({ firstDate: '1403/05/31', count: 9 }).slice(-1)).toEqual(['1404/01/31']);
+  });
+
+  it('steps by days', () => {
+    expect(dates({ firstDate: '1403/12/29', intervalUnit: 'day', interval: 1 })).toEqual(['1403/12/29', '1403/12/30', '1404/01/01']);
+  });
+});
+
+describe('generateSeries validation', () => {
+  it('rejects bad inputs', () => {
+    expect(generateSeries(input({ amount: 0n }))).toEqual({ ok: false, reason: 'invalid-amount' });
+    expect(generateSeries(input({ amount: 1n, firstDate: '1403/07/31' }))).toEqual({ ok: false, reason: 'invalid-date' });
+    expect(generateSeries(input({ amount: 1n, count: 361 }))).toEqual({ ok: false, reason: 'invalid-count' });
+    expect(generateSeries(input({ amount: 1n, interval: 0 }))).toEqual({ ok: false, reason: 'invalid-interval' });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Cheque, ChequeType } from '../types';
+import { createEmptyCheque } from './cases';
+import { addJalaliDays, addJalaliMonthsToDate, isValidJalali } from './jalali';
+import type { ShiftUnit } from './bulk';
+
+export type AmountMode = 'total' | 'per-cheque';
+
+// Where the part of the total that doesn't divide evenly is added
+export type RemainderPlacement = 'first' | 'last' | 'spread';
+
+export type SeriesFailure =
+  | 'invalid-amount'
+  | 'invalid-date'
+  | 'invalid-count'
+  | 'invalid-interval'
+  | 'negative-amount';
+
+export type SeriesInput = {
+  amountMode: AmountMode;
+  amount: bigint;
+  // Added to each cheque after the first, for stepped schedules (may be negative)
+  step: bigint;
+  // Round every cheque down to a multiple of this, e.g. 1,000,000 rials
+  roundTo: bigint;
+  remainder: RemainderPlacement;
+  firstDate: string;
+  interval: number;
+  intervalUnit: ShiftUnit;
+  count: number;
+  type: ChequeType;
+};
+
+export type SeriesResult =
+  | { ok: true; cheques: Cheque[]; total: bigint }
+  | { ok: false; reason: SeriesFailure };
+
+export const MAX_SERIES_COUNT = 360;
+
+// Dates are always offset from the first one, so a series starting on the 31st
+// comes back to the 31st whenever a later month is long enough
+const seriesDate = (firstDate: string, index: number, interval: number, unit: ShiftUnit) => {
+  return unit === 'day'
+    ? addJalaliDays(firstDate, index * interval)
+    : addJalaliMonthsToDate(firstDate, index * interval);
+};
+
+const floorTo = (value: bigint, unit: bigint) => value - (((value % unit) + unit) % unit);
+
+// Split a total into `count` stepped amounts rounded to `roundTo`, placing what is left over
+const splitTotal = (total: bigint, count: number, step: bigint, roundTo: bigint, remainder: RemainderPlacement) => {
+  const n = BigInt(count);
+  // total = n·first + step·(0 + 1 + … + n−1)
+  const stepTotal = step * (n * (n - 1n) / 2n);
+  const first = floorTo((total - stepTotal) / n, roundTo);
+  const amounts = Array.from({ length: count }, (_, i) => floorTo(first + step * BigInt(i), roundTo));
+
+  let left = total - amounts.reduce((sum, a) => sum + a, 0n);
+  if (remainder === 'spread') {
+    // Whole rounding units go one per cheque from the start; any odd rials end up on the first cheque
+    for (let i = 0; left >= roundTo && i < count; i++, left -= roundTo) amounts[i] += roundTo;
+    amounts[0] += left;
+  } else {
+    amounts[remainder === 'first' ? 0 : count - 1] += left;
+  }
+  return amounts;
+};
+
+export const generateSeries = (input: SeriesInput): SeriesResult => {
+  const { amountMode, amount, step, remainder, firstDate, interval, intervalUnit, count, type } = input;
+  const roundTo = input.roundTo > 0n ? input.roundTo : 1n;
+
+  if (amount <= 0n) return { ok: false, reason: 'invalid-amount' };
+  if (!isValidJalali(firstDate)) return { ok: false, reason: 'invalid-date' };
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_COUNT) return { ok: false, reason: 'invalid-count' };
+  if (!Number.isInteger(interval) || interval < 1) return { ok: false, reason: 'invalid-interval' };
+
+  const amounts = amountMode === 'total'
+    ? splitTotal(amount, count, step, roundTo, remainder)
+    : Array.from({ length: count }, (_, i) => amount + step * BigInt(i));
+  if (amounts.some(a => a <= 0n)) return { ok: false, reason: 'negative-amount' };
+
+  const cheques = amounts.map((value, i) => ({
+    ...createEmptyCheque(),
+    amount: value.toString(),
+    date: seriesDate(firstDate, i, interval, intervalUnit),
+    type
+  }));
+  return { ok: true, cheques, total: amounts.reduce((sum, a) => sum + a, 0n) };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { Cheque } from '../types';
+import type { BusinessDayRule } from './holidays';
+import { solveAmountForTarget, solveDateForTarget } from './solver';
+
+const base = '1403/01/01';
+const existing: Cheque[] = [{ id: '1', amount: '100', date: '1403/01/11', type: 'received' }];
+// No weekends, so only the listed holiday moves a clearing date
+const businessDays: BusinessDayRule = { calendar: { weekendDays: [], holidays: [{ date: '1403/01/21', name: 'تعطیل' }] }, roll: 'next' };
+
+describe('solveAmountForTarget', () => {
+  it('finds the amount that moves the ras onto the target', () => {
+    const result = solveAmountForTarget({ baseDate: base, cheques: existing, targetDate: '1403/01/16', date: '1403/01/21' });
+    expect(result).toMatchObject({ ok: true, amount: 100n });
+    expect(result.ok && result.results.rasDate).toBe('1403/01/16');
+  });
+
+  it('counts the new cheque to its clearing date when business days apply', () => {
+    // Due on the holiday, the cheque clears a day later: x = (15·100 − 1000) / (21 − 15)
+    const result = solveAmountForTarget({ baseDate: base, cheques: existing, targetDate: '1403/01/16', date: '1403/01/21', businessDays });
+    expect(result).toMatchObject({ ok: true, amount: 83n });
+    expect(result.ok && result.results.rasDate).toBe('1403/01/16');
+  });
+
+  it('reports a rounded amount that misses the target as unreachable', () => {
+    // The exact answer is half a rial; one rial puts the ras a day past the target
+    const result = solveAmountForTarget({
+      baseDate: base,
+      cheques: [{ id: '1', amount: '1', date: '1403/01/02', type: 'received' }],
+      targetDate: '1403/01/03',
+      date: '1403/01/05'
+    });
+    expect(result).toEqual({ ok: false, reason: 'unreachable' });
+  });
+});
+
+describe('solveDateForTarget', () => {
+  it('finds the due date that moves the ras onto the target', () => {
+    const result = solveDateForTarget({ baseDate: base, cheques: existing, targetDate: '1403/01/16', amount: 100n });
+    expect(result).toMatchObject({ ok: true, date: '1403/01/21' });
+    expect(result.ok && result.results.rasDate).toBe('1403/01/16');
+  });
+
+  it('reports a target that needs a cheque clearing on a holiday as unreachable', () => {
+    const result = solveDateForTarget({ baseDate: base, cheques: existing, targetDate: '1403/01/16', amount: 100n, businessDays });
+    expect(result).toEqual({ ok: false, reason: 'unreachable' });
+  });
+});
@@ -0,0 +1,92 @@
+import type { Cheque, ChequeStatus } from '../types';
+import { addJalaliDays, canAddJalaliDays, diffJalaliDays, isValidJalali } from './jalali';
+import { calculateRas, roundDiv, type RasSummary } from './ras';
+import { rollToBusinessDay, type BusinessDayRule } from './holidays';
+
+export type SolverFailure =
+  | 'invalid-base'
+  | 'invalid-target'
+  | 'invalid-date'
+  | 'invalid-amount'
+  | 'before-base'
+  | 'unreachable';
+
+export type SolverResult =
+  | { ok: true; amount: bigint; date: string; results: RasSummary }
+  | { ok: false; reason: SolverFailure };
+
+type SolverInput = {
+  baseDate: string;
+  cheques: Cheque[];
+  targetDate: string;
+  excludedStatuses?: ChequeStatus[];
+  // Same rule as the main calculation, so days run to each cheque's clearing date
+  businessDays?: BusinessDayRule | null;
+};
+
+type RasOptions = Pick<SolverInput, 'excludedStatuses' | 'businessDays'>;
+
+// Current weighted totals (Σ amount and Σ amount·days) of the valid cheques
+const currentTotals = (baseDate: string, cheques: Cheque[], options: RasOptions) => {
+  const { results } = calculateRas({ baseDate, cheques, ...options });
+  return {
+    totalAmount: results?.totalAmount ?? 0n,
+    totalValueDays: results?.totalValueDays ?? 0n
+  };
+};
+
+// Re-run the engine with the solved cheque appended, so callers see the ras it actually produces.
+// Rounding the amount or the days can leave the ras a day off the target; that is not a solution.
+const verify = (baseDate: string, cheques: Cheque[], targetDate: string, amount: bigint, date: string, options: RasOptions): SolverResult => {
+  const { results } = calculateRas({
+    baseDate,
+    ...options,
+    cheques: [...cheques, { id: 'solver', amount: amount.toString(), date, type: 'received' }]
+  });
+  if (!results || diffJalaliDays(results.rasDate, targetDate) !== 0) return { ok: false, reason: 'unreachable' };
+  return { ok: true, amount, date, results };
+};
+
+// Amount of one new cheque due on `date` that moves the ras onto `targetDate`:
+// (V + x·d) / (A + x) = T  =>  x = (T·A − V) / (d − T)
+export const solveAmountForTarget = ({ baseDate, cheques, targetDate, date, ...options }: SolverInput & { date: string }): SolverResult => {
+  if (!isValidJalali(baseDate)) return { ok: false, reason: 'invalid-base' };
+  if (!isValidJalali(targetDate)) return { ok: false, reason: 'invalid-target' };
+  if (!isValidJalali(date)) return { ok: false, reason: 'invalid-date' };
+
+  // A cheque due on a holiday only counts from the next business day
+  const clearingDate = options.businessDays ? rollToBusinessDay(date, options.businessDays.calendar, 'next') : date;
+  const days = diffJalaliDays(baseDate, clearingDate);
+  if (days < 0) return { ok: false, reason: 'before-base' };
+
+  const target = BigInt(diffJalaliDays(baseDate, targetDate));
+  const { totalAmount, totalValueDays } = currentTotals(baseDate, cheques, options);
+  const numerator = target * totalAmount - totalValueDays;
+  const denominator = BigInt(days) - target;
+
+  // A cheque due on the target date itself cannot move the ras towards it
+  if (denominator === 0n) return { ok: false, reason: 'unreachable' };
+
+  const amount = roundDiv(numerator, denominator);
+  if (amount <= 0n) return { ok: false, reason: 'unreachable' };
+
+  return verify(baseDate, cheques, targetDate, amount, date, options);
+};
+
+// Due date of one new cheque of `amount` that moves the ras onto `targetDate`:
+// (V + x·d) / (A + x) = T  =>  d = (T·(A + x) − V) / x
+export const solveDateForTarget = ({ baseDate, cheques, targetDate, amount, ...options }: SolverInput & { amount: bigint }): SolverResult => {
+  if (!isValidJalali(baseDate)) return { ok: false, reason: 'invalid-base' };
+  if (!isValidJalali(targetDate)) return { ok: false, reason: 'invalid-target' };
+  if (amount <= 0n) return { ok: false, reason: 'invalid-amount' };
+
+  const target = BigInt(diffJalaliDays(baseDate, targetDate));
+  const { totalAmount, totalValueDays } = currentTotals(baseDate, cheques, options);
+  const days = roundDiv(target * (totalAmount + amount) - totalValueDays, amount);
+
+  if (days < 0n) return { ok: false, reason: 'before-base' };
+  if (!canAddJalaliDays(baseDate, days)) return { ok: false, reason: 'unreachable' };
+
+  // When that day is a holiday no due date clears on it, and verify reports the target as unreachable
+  return verify(baseDate, cheques, targetDate, amount, addJalaliDays(baseDate, Number(days)), options);
+};
@@ -0,0 +1,61 @@
+import type { CaseSettings, ChequeStatus } from '../types';
+
+// Validators shared by the case file, saved cases and OCR replies. This module imports
+// no other lib module, so caseFile.ts and cases.ts can both use it without a cycle.
+
+export const CHEQUE_STATUSES: readonly ChequeStatus[] = ['pending', 'cleared', 'bounced', 'cancelled'];
+
+// Thrown inside the validators and turned into an 'invalid-field' result
+export class FieldError extends Error {
+  constructor(readonly field: string) {
+    super(field);
+  }
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const readString = (raw: Record<string, unknown>, key: string, path: string, pattern?: RegExp) => {
+  const value = raw[key];
+  if (typeof value !== 'string' || (pattern && !pattern.test(value))) throw new FieldError(path);
+  return value;
+};
+
+export const readOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T => {
+  if (!options.includes(value as T)) throw new FieldError(path);
+  return value as T;
+};
+
+// Missing settings fall back to the defaults; present ones must have the right shape.
+// Throws a FieldError naming the first bad setting.
+export const validateSettings = (raw: unknown, defaults: CaseSettings): CaseSettings => {
+  const settings = { ...defaults };
+  if (raw === undefined) return settings;
+  if (!isPlainObject(raw)) throw new FieldError('settings');
+
+  const bool = (key: 'discountEnabled' | 'businessDayMode') => {
+    if (raw[key] === undefined) return;
+    if (typeof raw[key] !== 'boolean') throw new FieldError(`settings.${key}`);
+    settings[key] = raw[key];
+  };
+  bool('discountEnabled');
+  bool('businessDayMode');
+
+  if (raw.annualRate !== undefined) settings.annualRate = readString(raw, 'annualRate', 'settings.annualRate');
+  if (raw.interestMethod !== undefined) {
+    settings.interestMethod = readOneOf(raw.interestMethod, ['simple', 'compound'], 'settings.interestMethod');
+  }
+  if (raw.rollDirection !== undefined) {
+    settings.rollDirection = readOneOf(raw.rollDirection, ['next', 'previous'], 'settings.rollDirection');
+  }
+  if (raw.upcomingDays !== undefined) {
+    if (!Number.isInteger(raw.upcomingDays) || (raw.upcomingDays as number) < 1) throw new FieldError('settings.upcomingDays');
+    settings.upcomingDays = raw.upcomingDays as number;
+  }
+  if (raw.excludedStatuses !== undefined) {
+    if (!Array.isArray(raw.excludedStatuses)) throw new FieldError('settings.excludedStatuses');
+    settings.excludedStatuses = raw.excludedStatuses.map((s, i) => readOneOf(s, CHEQUE_STATUSES, `settings.excludedStatuses[${i}]`));
+  }
+  return settings;
+};
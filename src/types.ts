@@ -0,0 +1,74 @@
+export type ChequeType = 'received' | 'paid';
+
+export type ChequeStatus = 'pending' | 'cleared' | 'bounced' | 'cancelled';
+
+// Optional descriptive fields; none of them affect the ras math except `status`
+export type ChequeDetails = {
+  counterparty?: string;
+  bank?: string;
+  branch?: string;
+  serial?: string;
+  sayadId?: string;
+  note?: string;
+  status?: ChequeStatus;
+};
+
+export type Cheque = ChequeDetails & {
+  id: string;
+  amount: string;
+  date: string;
+  type: ChequeType;
+};
+
+export type InterestMethod = 'simple' | 'compound';
+
+export type RollDirection = 'next' | 'previous';
+
+// `date` is either a full Jalali date (YYYY/MM/DD) or a yearly recurring MM/DD
+export type Holiday = {
+  date: string;
+  name: string;
+};
+
+// Shared across cases: which days banks are closed
+export type HolidayCalendar = {
+  // Weekday indexes with Saturday as 0
+  weekendDays: number[];
+  holidays: Holiday[];
+};
+
+export type AmountUnit = 'rial' | 'toman';
+
+export type DigitStyle = 'latin' | 'persian' | 'arabic';
+
+// App-wide presentation preferences. Amounts are always stored in rial;
+// these only change how they are typed in and shown.
+export type DisplaySettings = {
+  unit: AmountUnit;
+  digits: DigitStyle;
+};
+
+export type CaseSettings = {
+  // Time-value mode: discount each cheque to baseDate at an annual rate (percent)
+  discountEnabled: boolean;
+  annualRate: string;
+  interestMethod: InterestMethod;
+  // Cheques in these states are listed but left out of the ras
+  excludedStatuses: ChequeStatus[];
+  // Look-ahead window, in days from today, for the upcoming-maturity highlight
+  upcomingDays: number;
+  // Count days to each cheque's clearing date and roll the ras onto a business day
+  businessDayMode: boolean;
+  rollDirection: RollDirection;
+};
+
+// A named, independently saved calculation (e.g. one per customer or contract)
+export type Case = {
+  id: string;
+  name: string;
+  baseDate: string;
+  cheques: Cheque[];
+  settings: CaseSettings;
+  createdAt: number;
+  updatedAt: number;
+};
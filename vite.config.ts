@@ -1,15 +1,32 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import {createHash} from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, loadEnv, type Plugin} from 'vite';
+
+// Files in public/ that the installed app needs; everything Vite emits is added automatically
+const PUBLIC_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Emit sw.js from src/sw.js with the full list of built files to precache, so the
+// calculator, imports and the PDF fonts keep working offline after the first visit.
+const serviceWorker = (): Plugin => ({
+  name: 'ras-giri-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = ['/', ...Object.keys(bundle).filter(name => name !== 'index.html').map(name => `/${name}`), ...PUBLIC_FILES];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8')
+      .replace('__CACHE_VERSION__', version)
+      .replace('__PRECACHE_FILES__', JSON.stringify(files, null, 2));
+    this.emitFile({type: 'asset', fileName: 'sw.js', source});
+  },
+});
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [react(), tailwindcss(), serviceWorker()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
@@ -19,6 +36,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The Gemini key stays on the API server (npm run server); never inline it here.
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 3001}`,
+      },
     },
   };
 });